@@ -1,6 +1,41 @@
 // @ts-check
+import { fileURLToPath } from 'node:url';
 import { defineConfig } from 'astro/config';
 import tailwind from '@astrojs/tailwind';
+import rehypeSectionize from './src/lib/rehypeSectionize.mjs';
+import rehypeMediaPlacement from './src/lib/rehypeMediaPlacement.mjs';
+
+// Local time-tracking dashboard. It reads ~/.time-tracker-* from the machine
+// running the dev server, so the route is only injected under `astro dev` and
+// never makes it into a production build.
+/** @type {import('astro').AstroIntegration} */
+const devTimeTrackerDashboard = {
+  name: 'dev-time-tracker-dashboard',
+  hooks: {
+    'astro:config:setup': ({ command, injectRoute }) => {
+      if (command === 'dev') {
+        injectRoute({ pattern: '/dev/time-tracker', entrypoint: './src/dev/time-tracker.astro' });
+      }
+    }
+  }
+};
+
+// Front matter media is probed from wherever `publicDir` points: the media
+// placement plugin gets it as an option, the media manifest (lib/media/
+// collections.ts) as import.meta.env.MEDIA_PUBLIC_DIR.
+/** @type {import('astro').AstroIntegration} */
+const mediaPublicDir = {
+  name: 'media-public-dir',
+  hooks: {
+    'astro:config:setup': ({ config, updateConfig }) => {
+      const publicDir = fileURLToPath(config.publicDir);
+      updateConfig({
+        markdown: { rehypePlugins: [[rehypeMediaPlacement, { publicDir }]] },
+        vite: { define: { 'import.meta.env.MEDIA_PUBLIC_DIR': JSON.stringify(publicDir) } }
+      });
+    }
+  }
+};
 
 // https://astro.build/config
 export default defineConfig({
@@ -12,8 +47,10 @@ export default defineConfig({
   // This prevents pathname matching issues in components like Menu
   trailingSlash: 'never',
 
-  integrations: [tailwind()],
-  // markdown: { rehypePlugins: [] },
+  integrations: [tailwind(), devTimeTrackerDashboard, mediaPublicDir],
+  // Content sections and front matter media are laid out at build time;
+  // mediaPublicDir appends the media placement plugin after rehypeSectionize
+  markdown: { rehypePlugins: [rehypeSectionize] },
   devToolbar: {
     enabled: false, // Disable the DevToolbar
   },
@@ -19,6 +19,11 @@ export default [
       security,
     },
     rules: {
+      // TypeScript already resolves globals (DOM, Node, fetch API) from its lib settings
+      'no-undef': 'off',
+      // Parameter names in type signatures are not variables; _-prefixed args are unused on purpose
+      'no-unused-vars': 'off',
+      '@typescript-eslint/no-unused-vars': ['error', { argsIgnorePattern: '^_' }],
       ...security.configs.recommended.rules,
       'security/detect-unsafe-regex': 'error',
       'security/detect-buffer-noassert': 'error',
@@ -0,0 +1,420 @@
+/**
+ * Time Tracker CLI - Drives the TimeTracker from the terminal
+ *
+ * Usage:
+ *   tsx scripts/time-tracker.ts start [--daemon]   Watch files (foreground, or detached with --daemon)
+ *   tsx scripts/time-tracker.ts stop               Signal the running tracker to flush and exit
+ *   tsx scripts/time-tracker.ts status             Show the running tracker and its live session
+ *   tsx scripts/time-tracker.ts report [options]   Summarize recorded sessions, or export them as CSV/iCalendar/Markdown
+ *   tsx scripts/time-tracker.ts migrate            Recompute active time for sessions recorded by older trackers
+ *   tsx scripts/time-tracker.ts recover            Rebuild the data file from backups and the session journal
+ *
+ * Exit codes:
+ *   0 - success
+ *   1 - unexpected error
+ *   2 - invalid usage
+ *   3 - tracker is not running
+ *   4 - tracker is already running
+ */
+
+import { spawn } from 'child_process';
+import { existsSync, openSync, rmSync } from 'fs';
+import { readFile, writeFile, mkdir, rm } from 'fs/promises';
+import { basename, dirname, join } from 'path';
+import {
+  TimeTracker,
+  formatDuration,
+  isProcessAlive,
+  type TrackingSession,
+} from '../src/lib/time-tracker';
+import {
+  dayKey,
+  exportCsv,
+  exportICalendar,
+  exportMarkdownDigest,
+  filterSessions,
+  shiftDay,
+  sumByArea,
+  sumByBranch,
+  sumByCommitRange,
+  sumByDay,
+  sumByWeek,
+  weekKey,
+  type ReportOptions,
+} from '../src/lib/time-tracker-report';
+
+const EXIT_OK = 0;
+const EXIT_ERROR = 1;
+const EXIT_USAGE = 2;
+const EXIT_NOT_RUNNING = 3;
+const EXIT_ALREADY_RUNNING = 4;
+
+// How long `stop` waits for the tracker to flush its session before giving up
+const STOP_TIMEOUT_MS = 10_000;
+// Number of most-touched files listed for the live session
+const STATUS_TOP_FILES = 5;
+// How long `start --daemon` waits for the detached tracker to write its PID file
+const DAEMON_STARTUP_TIMEOUT_MS = 5_000;
+const POLL_INTERVAL_MS = 100;
+
+const REPORT_FORMATS = ['text', 'csv', 'ics', 'md'];
+const REPORT_GROUPS = ['day', 'branch', 'commit'];
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const USAGE = `Usage: time-tracker <command> [options]
+
+Commands:
+  start [--daemon]   Start watching files (detached from the terminal with --daemon)
+  stop               Stop the running tracker and save the open session
+  status             Show whether the tracker runs and the live session
+  report [options]   Summarize tracked time by day, week and area
+    --format F       text (default), csv, ics or md (weekly Markdown digest)
+    --weeks N        Cover the last N weeks (default: 4)
+    --from DAY       First day included (YYYY-MM-DD), overrides --weeks
+    --to DAY         Last day included (YYYY-MM-DD)
+    --tz ZONE        Bucket days in this IANA time zone (default: system zone)
+    --group-by G     Text report grouping: day (default), branch or commit (range)
+    --out FILE       Write the export to FILE instead of stdout
+  migrate            Recompute active time and totals in existing data files
+  recover            Rebuild the data file from backups and the session journal`;
+
+const projectRoot = process.cwd();
+const tracker = new TimeTracker({}, projectRoot);
+const dataDir = dirname(tracker.getDataFilePath());
+const pidFile = join(dataDir, 'tracker.pid');
+const logFile = join(dataDir, 'tracker.log');
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Read the PID of the running tracker, cleaning up stale PID files
+ */
+async function readRunningPid(): Promise<number | null> {
+  if (!existsSync(pidFile)) {
+    return null;
+  }
+
+  const pid = Number.parseInt((await readFile(pidFile, 'utf-8')).trim(), 10);
+  if (Number.isInteger(pid) && pid > 0 && isProcessAlive(pid)) {
+    return pid;
+  }
+
+  // Previous tracker died without cleaning up
+  await rm(pidFile, { force: true });
+  return null;
+}
+
+/**
+ * Start tracking in this process until SIGINT/SIGTERM
+ */
+async function startForeground(): Promise<number> {
+  // The tracker closes its session on SIGINT/SIGTERM and exits; drop the PID file on the way out
+  await tracker.start();
+  await writeFile(pidFile, String(process.pid), 'utf-8');
+  process.on('exit', () => rmSync(pidFile, { force: true }));
+
+  console.log(`Tracking ${projectRoot} (PID ${process.pid}). Press Ctrl+C to stop.`);
+  // File watchers keep the event loop alive until a signal arrives
+  return EXIT_OK;
+}
+
+/**
+ * Re-launch this script detached from the terminal and wait for it to come up
+ */
+async function startDaemon(): Promise<number> {
+  const script = process.argv[1];
+  if (!script) {
+    console.error('Cannot determine script path for daemon mode');
+    return EXIT_ERROR;
+  }
+
+  const log = openSync(logFile, 'a');
+  // execArgv carries the tsx loader so the child can run TypeScript too
+  const child = spawn(process.execPath, [...process.execArgv, script, 'start'], {
+    cwd: projectRoot,
+    detached: true,
+    stdio: ['ignore', log, log],
+  });
+  child.unref();
+
+  const deadline = Date.now() + DAEMON_STARTUP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if ((await readRunningPid()) === child.pid) {
+      console.log(`Time tracker started in background (PID ${child.pid})`);
+      console.log(`Log: ${logFile}`);
+      return EXIT_OK;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  console.error(`Time tracker did not start, see ${logFile}`);
+  return EXIT_ERROR;
+}
+
+async function commandStart(args: string[]): Promise<number> {
+  const runningPid = await readRunningPid();
+  if (runningPid !== null) {
+    console.error(`Time tracker is already running (PID ${runningPid})`);
+    return EXIT_ALREADY_RUNNING;
+  }
+
+  await mkdir(dataDir, { recursive: true });
+  const daemon = args.includes('--daemon') || args.includes('-d');
+  return daemon ? startDaemon() : startForeground();
+}
+
+async function commandStop(): Promise<number> {
+  const pid = await readRunningPid();
+  if (pid === null) {
+    console.error('Time tracker is not running');
+    return EXIT_NOT_RUNNING;
+  }
+
+  // SIGTERM lets the tracker run endCurrentSession before exiting
+  process.kill(pid, 'SIGTERM');
+
+  const deadline = Date.now() + STOP_TIMEOUT_MS;
+  while (Date.now() < deadline) {
+    if (!isProcessAlive(pid)) {
+      await rm(pidFile, { force: true });
+      console.log(`Time tracker stopped (PID ${pid})`);
+      return EXIT_OK;
+    }
+    await sleep(POLL_INTERVAL_MS);
+  }
+
+  console.error(`Time tracker (PID ${pid}) did not exit within ${STOP_TIMEOUT_MS / 1000}s`);
+  return EXIT_ERROR;
+}
+
+async function commandStatus(): Promise<number> {
+  const pid = await readRunningPid();
+  const stats = await tracker.getStats();
+
+  console.log(`Status:        ${pid !== null ? `running (PID ${pid})` : 'stopped'}`);
+  console.log(`Total tracked: ${formatDuration(stats.totalSeconds)}`);
+  console.log(`Sessions:      ${stats.sessions.length}`);
+  if (stats.lastTracked) {
+    console.log(`Last tracked:  ${new Date(stats.lastTracked).toLocaleString()}`);
+  }
+
+  if (stats.currentSession) {
+    const started = new Date(stats.currentSession.startTime);
+    console.log('');
+    console.log('Live session');
+    console.log(`  Started:     ${started.toLocaleString()}`);
+    console.log(`  Active:      ${formatDuration(stats.currentSession.activeSeconds)}`);
+    console.log(`  Span:        ${formatDuration(stats.currentSession.wallSeconds)}`);
+
+    const files = [...stats.currentSession.filesModified].sort((a, b) => b.touches - a.touches);
+    console.log(`  Files:       ${files.length}`);
+    for (const file of files.slice(0, STATUS_TOP_FILES)) {
+      console.log(`    ${String(file.touches).padStart(3)}x  ${file.path}`);
+    }
+  } else if (pid !== null) {
+    console.log('');
+    console.log('Live session:  none (waiting for file activity)');
+  }
+
+  return pid !== null ? EXIT_OK : EXIT_NOT_RUNNING;
+}
+
+function printTotals(title: string, totals: Map<string, number>): void {
+  console.log(title);
+  for (const [key, seconds] of [...totals.entries()].sort(([a], [b]) => b.localeCompare(a))) {
+    console.log(`  ${key}  ${formatDuration(seconds)}`);
+  }
+  console.log('');
+}
+
+/**
+ * Tracked time per key, largest first, with its share of the total
+ */
+function printRanked(title: string, totals: Map<string, number>, total: number): void {
+  const rows = [...totals.entries()].sort(([, a], [, b]) => b - a);
+  const width = Math.max(...rows.map(([key]) => key.length));
+
+  console.log(title);
+  for (const [key, seconds] of rows) {
+    const share = total > 0 ? Math.round((seconds / total) * 100) : 0;
+    console.log(`  ${key.padEnd(width)}  ${formatDuration(Math.round(seconds)).padEnd(12)} ${share}%`);
+  }
+  console.log('');
+}
+
+/**
+ * Value following a `--name` flag, undefined when the flag is absent
+ */
+function getOption(args: string[], name: string): string | undefined {
+  const index = args.indexOf(`--${name}`);
+  return index >= 0 ? args[index + 1] : undefined;
+}
+
+/**
+ * First of `names` passed as a flag with no value after it
+ */
+function findBareOption(args: string[], names: string[]): string | undefined {
+  return names.find((name) => {
+    const index = args.indexOf(`--${name}`);
+    return index >= 0 && (args[index + 1] ?? '--').startsWith('--');
+  });
+}
+
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+async function commandReport(args: string[]): Promise<number> {
+  const bare = findBareOption(args, ['format', 'tz', 'weeks', 'from', 'to', 'out', 'group-by']);
+  if (bare) {
+    console.error(`--${bare} expects a value`);
+    return EXIT_USAGE;
+  }
+
+  const format = getOption(args, 'format') ?? 'text';
+  const timeZone = getOption(args, 'tz');
+  const weeksOption = getOption(args, 'weeks') ?? '4';
+  const weeks = Number(weeksOption);
+  const from = getOption(args, 'from');
+  const to = getOption(args, 'to');
+  const out = getOption(args, 'out');
+  const groupBy = getOption(args, 'group-by') ?? 'day';
+
+  if (!REPORT_FORMATS.includes(format)) {
+    console.error(`--format expects one of: ${REPORT_FORMATS.join(', ')}`);
+    return EXIT_USAGE;
+  }
+  if (!REPORT_GROUPS.includes(groupBy)) {
+    console.error(`--group-by expects one of: ${REPORT_GROUPS.join(', ')}`);
+    return EXIT_USAGE;
+  }
+  if (!/^\d+$/.test(weeksOption) || weeks < 1) {
+    console.error('--weeks expects a positive integer');
+    return EXIT_USAGE;
+  }
+  if (timeZone !== undefined && !isValidTimeZone(timeZone)) {
+    console.error(`Unknown time zone: ${timeZone}`);
+    return EXIT_USAGE;
+  }
+
+  for (const day of [from, to]) {
+    if (day !== undefined && (!DAY_PATTERN.test(day) || Number.isNaN(Date.parse(day)))) {
+      console.error(`Dates must be YYYY-MM-DD, got: ${day}`);
+      return EXIT_USAGE;
+    }
+  }
+
+  // Without --from, the range starts on the Monday `weeks` weeks back
+  const today = dayKey(new Date(), timeZone);
+  const options = { from: from ?? shiftDay(weekKey(to ?? today), -(weeks - 1) * 7), to, timeZone };
+  const stats = await tracker.getStats();
+  let output: string;
+
+  switch (format) {
+    case 'csv':
+      output = exportCsv(stats.sessions, options);
+      break;
+    case 'ics':
+      output = exportICalendar(stats.sessions, { calendarName: basename(projectRoot) }, options);
+      break;
+    case 'md':
+      output = exportMarkdownDigest(stats.sessions, { ...options, title: `${basename(projectRoot)} time digest` });
+      break;
+    default:
+      printTextReport(filterSessions(stats.sessions, options), options, groupBy);
+      return EXIT_OK;
+  }
+
+  if (out) {
+    await writeFile(out, output, 'utf-8');
+    console.log(`Report written to ${out}`);
+  } else {
+    process.stdout.write(output);
+  }
+  return EXIT_OK;
+}
+
+function printTextReport(sessions: TrackingSession[], options: ReportOptions, groupBy: string): void {
+  if (sessions.length === 0) {
+    console.log(`No sessions recorded since ${options.from}`);
+    return;
+  }
+
+  const total = sessions.reduce((sum, session) => sum + session.duration, 0);
+  console.log(`Time tracked since ${options.from}: ${formatDuration(total)} in ${sessions.length} sessions`);
+  console.log('');
+
+  if (groupBy === 'branch') {
+    printRanked('By branch', sumByBranch(sessions), total);
+  } else if (groupBy === 'commit') {
+    printRanked('By branch and commit range', sumByCommitRange(sessions), total);
+  } else {
+    printTotals('By week (starting Monday)', sumByWeek(sessions, options.timeZone));
+    printTotals('By day', sumByDay(sessions, options.timeZone));
+  }
+  printRanked('By area', sumByArea(sessions), total);
+}
+
+async function commandMigrate(): Promise<number> {
+  if ((await readRunningPid()) !== null) {
+    console.error('Stop the time tracker before migrating its data');
+    return EXIT_ALREADY_RUNNING;
+  }
+
+  const result = await tracker.migrate();
+  if (result.migratedSessions === 0) {
+    console.log('Data is already up to date');
+    return EXIT_OK;
+  }
+
+  console.log(`Migrated ${result.migratedSessions} sessions`);
+  console.log(`Total tracked: ${formatDuration(result.previousTotalSeconds)} -> ${formatDuration(result.data.totalSeconds)}`);
+  return EXIT_OK;
+}
+
+async function commandRecover(): Promise<number> {
+  if ((await readRunningPid()) !== null) {
+    console.error('Stop the time tracker before recovering its data');
+    return EXIT_ALREADY_RUNNING;
+  }
+
+  const data = await tracker.recover();
+  console.log(`Recovered ${data.sessions.length} sessions, ${formatDuration(data.totalSeconds)} tracked`);
+  return EXIT_OK;
+}
+
+async function main(): Promise<number> {
+  const [command, ...args] = process.argv.slice(2);
+
+  switch (command) {
+    case 'start':
+      return commandStart(args);
+    case 'stop':
+      return commandStop();
+    case 'status':
+      return commandStatus();
+    case 'report':
+      return commandReport(args);
+    case 'migrate':
+      return commandMigrate();
+    case 'recover':
+      return commandRecover();
+    default:
+      console.error(USAGE);
+      return EXIT_USAGE;
+  }
+}
+
+main()
+  .then((code) => {
+    process.exitCode = code;
+  })
+  .catch((error) => {
+    console.error('Time tracker failed:', error);
+    process.exit(EXIT_ERROR);
+  });
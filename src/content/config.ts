@@ -1,6 +1,35 @@
 
 // @ts-ignore - provided by Astro at build time
 import { defineCollection, z } from 'astro:content';
+import { LIFE_PHASES, type LifePhaseId } from '../lib/memories/constellation';
+
+// Phases (and their colours) are defined once, next to the constellation that draws them
+const LIFE_PHASE_IDS = LIFE_PHASES.map((phase) => phase.id) as [LifePhaseId, ...LifePhaseId[]];
+
+const hexColor = z.string().regex(/^#([0-9a-fA-F]{3}|[0-9a-fA-F]{6})$/, 'Expected a hex colour such as #ffccf2');
+
+// Memory spheres shader preset (src/lib/memories/shaderPresets.ts); each preset has its own colours
+const orbShaderBase = z.object({
+  overlay: z.string().min(1).optional(), // glass texture over each orb, defaults to JN-000-OrbMedia_high.webp
+});
+const orbShaderSchema = z.discriminatedUnion('preset', [
+  orbShaderBase.extend({
+    preset: z.literal('spectral'),
+    colors: z.object({ void: hexColor, flame: hexColor }).partial().strict().optional(),
+  }),
+  orbShaderBase.extend({
+    preset: z.literal('glass'),
+    colors: z.object({ tint: hexColor, rim: hexColor }).partial().strict().optional(),
+  }),
+  orbShaderBase.extend({
+    preset: z.literal('duotone'),
+    colors: z.object({ shadow: hexColor, highlight: hexColor }).partial().strict().optional(),
+  }),
+  orbShaderBase.extend({
+    preset: z.literal('film-grain'),
+    colors: z.object({ fade: hexColor }).partial().strict().optional(),
+  }),
+]);
 
 // Define schema for content with comprehensive media support
 // We use a function to accept the context with the image helper
@@ -13,6 +42,8 @@ const contentSchema = ({ image }: { image: any }) => z.object({
   // Status for drafts
   draft: z.boolean().optional(),
   caseStudy: z.boolean().default(false),
+  // Journey: colours the entry's cluster in the memory constellation (src/lib/memories/constellation.ts)
+  lifePhase: z.enum(LIFE_PHASE_IDS).optional(),
 
   // Project metadata
   client: z.string().optional(),
@@ -95,6 +126,9 @@ const contentSchema = ({ image }: { image: any }) => z.object({
     galleryColumns: z.number().int().min(2).max(4).default(3).optional(),
     galleryStyle: z.enum(['standard', 'collage']).default('standard').optional(),
     collageSeed: z.number().int().optional(),
+    // Memory spheres: fixes orb layout and drift so the page looks the same on every visit
+    orbSeed: z.union([z.number().int(), z.string().min(1)]).optional(),
+    orbShader: orbShaderSchema.optional(),
   }).optional(),
 });
 
@@ -0,0 +1,6 @@
+/// <reference types="astro/client" />
+
+interface ImportMetaEnv {
+  // Absolute path of Astro's publicDir, defined by astro.config.mjs
+  readonly MEDIA_PUBLIC_DIR: string;
+}
@@ -0,0 +1,243 @@
+/**
+ * Glob Match - gitignore-style pattern matching for project-relative paths
+ *
+ * Syntax:
+ * - `*` matches anything except `/`, `?` one character, `[a-z]` / `[!a-z]` a class
+ * - `**` as a whole segment matches any number of directories
+ * - `{a,b}` expands to alternatives
+ * - A pattern without a slash matches a file or directory name at any depth
+ *   (`*.log`, `dist`); one with a slash is anchored to the project root
+ *   (`src/content/drafts`, `/public/media`)
+ * - A trailing `/` only matches directories; `!` re-includes what an earlier
+ *   pattern excluded (the last matching pattern wins)
+ * - A pattern that matches a directory matches everything inside it
+ *
+ * Matching walks the pattern by hand instead of compiling it to a RegExp.
+ */
+
+export interface GlobRule {
+  source: string; // pattern as written
+  segments: string[]; // pattern split on '/', leading/trailing slashes removed
+  negated: boolean;
+  anchored: boolean; // matched against the whole path instead of a name
+  directoryOnly: boolean;
+}
+
+/**
+ * Expand `{a,b}` alternatives (non-nested) into separate patterns
+ */
+export function expandBraces(pattern: string): string[] {
+  const open = pattern.indexOf('{');
+  const close = open >= 0 ? pattern.indexOf('}', open) : -1;
+  if (open < 0 || close < 0) {
+    return [pattern];
+  }
+
+  const head = pattern.slice(0, open);
+  const tail = pattern.slice(close + 1);
+  return pattern
+    .slice(open + 1, close)
+    .split(',')
+    .flatMap((alternative) => expandBraces(`${head}${alternative}${tail}`));
+}
+
+/**
+ * Parse gitignore-style lines into rules, skipping blanks and comments
+ */
+export function parseGlobRules(lines: string[]): GlobRule[] {
+  const rules: GlobRule[] = [];
+
+  for (const rawLine of lines) {
+    let line = rawLine.trim();
+    if (!line || line.startsWith('#')) {
+      continue;
+    }
+
+    const negated = line.startsWith('!');
+    if (negated) {
+      line = line.slice(1);
+    }
+    // "\#" and "\!" escape a literal leading character
+    if (line.startsWith('\\#') || line.startsWith('\\!')) {
+      line = line.slice(1);
+    }
+
+    const directoryOnly = line.endsWith('/');
+    const trimmed = line.replace(/^\/+/, '').replace(/\/+$/, '');
+    if (!trimmed) {
+      continue;
+    }
+
+    for (const expanded of expandBraces(trimmed)) {
+      rules.push({
+        source: rawLine.trim(),
+        segments: expanded.split('/'),
+        negated,
+        anchored: line.startsWith('/') || expanded.includes('/'),
+        directoryOnly,
+      });
+    }
+  }
+
+  return rules;
+}
+
+/**
+ * Match a character class starting at `start` (the '['); returns the index
+ * after the closing ']' when `char` is in the class, -1 when it isn't, or null
+ * when the bracket isn't a valid class (and should be taken literally)
+ */
+function matchClass(pattern: string, start: number, char: string): number | null {
+  let index = start + 1;
+  const negated = pattern.charAt(index) === '!' || pattern.charAt(index) === '^';
+  if (negated) {
+    index++;
+  }
+
+  let matched = false;
+  let first = true;
+  while (index < pattern.length && (first || pattern.charAt(index) !== ']')) {
+    first = false;
+    const low = pattern.charAt(index);
+    if (pattern.charAt(index + 1) === '-' && index + 2 < pattern.length && pattern.charAt(index + 2) !== ']') {
+      const high = pattern.charAt(index + 2);
+      matched ||= char >= low && char <= high;
+      index += 3;
+    } else {
+      matched ||= char === low;
+      index++;
+    }
+  }
+
+  if (index >= pattern.length) {
+    return null;
+  }
+  return matched !== negated ? index + 1 : -1;
+}
+
+/**
+ * Match one path segment against one pattern segment (no '/')
+ */
+export function matchSegment(pattern: string, text: string, patternIndex = 0, textIndex = 0): boolean {
+  let p = patternIndex;
+  let t = textIndex;
+
+  while (p < pattern.length) {
+    const char = pattern.charAt(p);
+
+    if (char === '*') {
+      while (pattern.charAt(p) === '*') {
+        p++;
+      }
+      if (p === pattern.length) {
+        return true;
+      }
+      for (let rest = t; rest <= text.length; rest++) {
+        if (matchSegment(pattern, text, p, rest)) {
+          return true;
+        }
+      }
+      return false;
+    }
+
+    if (t >= text.length) {
+      return false;
+    }
+
+    if (char === '?') {
+      p++;
+      t++;
+      continue;
+    }
+
+    if (char === '[') {
+      const next = matchClass(pattern, p, text.charAt(t));
+      if (next !== null) {
+        if (next < 0) {
+          return false;
+        }
+        p = next;
+        t++;
+        continue;
+      }
+    }
+
+    if (char === '\\' && p + 1 < pattern.length) {
+      p++;
+    }
+    if (pattern.charAt(p) !== text.charAt(t)) {
+      return false;
+    }
+    p++;
+    t++;
+  }
+
+  return t === text.length;
+}
+
+/**
+ * Match path segments against pattern segments, with `**` spanning directories
+ */
+function matchSegments(pattern: string[], path: string[], p = 0, t = 0): boolean {
+  if (p === pattern.length) {
+    return t === path.length;
+  }
+
+  const segment = pattern.at(p) ?? '';
+  if (segment === '**') {
+    for (let rest = t; rest <= path.length; rest++) {
+      if (matchSegments(pattern, path, p + 1, rest)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  return t < path.length && matchSegment(segment, path.at(t) ?? '') && matchSegments(pattern, path, p + 1, t + 1);
+}
+
+/**
+ * Whether a rule matches the path itself or one of its parent directories
+ */
+export function ruleMatches(rule: GlobRule, path: string): boolean {
+  const segments = path.split('/').filter(Boolean);
+
+  // Candidates: every parent directory, then the file itself
+  for (let length = 1; length <= segments.length; length++) {
+    const isFile = length === segments.length;
+    if (isFile && rule.directoryOnly) {
+      continue;
+    }
+
+    const candidate = segments.slice(0, length);
+    const matched = rule.anchored
+      ? matchSegments(rule.segments, candidate)
+      : matchSegment(rule.segments[0] ?? '', candidate.at(-1) ?? '');
+    if (matched) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Evaluate rules in order: the last rule matching the path decides
+ * (true for a plain rule, false for a `!` rule); false when none match
+ */
+export function matchGlobRules(path: string, rules: GlobRule[]): boolean {
+  let result = false;
+  for (const rule of rules) {
+    if (ruleMatches(rule, path)) {
+      result = !rule.negated;
+    }
+  }
+  return result;
+}
+
+/**
+ * Match a single glob pattern against a project-relative path
+ */
+export function matchesGlob(path: string, pattern: string): boolean {
+  return matchGlobRules(path, parseGlobRules([pattern]));
+}
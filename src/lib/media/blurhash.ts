@@ -0,0 +1,164 @@
+/**
+ * BlurHash (https://blurha.sh) encoder and decoder: a ~30 character string
+ * standing in for an image until it loads. Encoding runs at build time
+ * (see probe.ts); decoding runs in the browser to paint placeholders.
+ */
+
+const BASE83_DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz#$%*+,-.:;=?@[]^_{|}~';
+
+// Components per axis the encoder accepts (the format stores each in one digit)
+const MAX_COMPONENTS = 9;
+
+type Color = [number, number, number];
+
+function encodeBase83(value: number, length: number): string {
+	let result = '';
+	for (let i = 1; i <= length; i++) {
+		const digit = Math.floor(value / Math.pow(83, length - i)) % 83;
+		result += BASE83_DIGITS.charAt(digit);
+	}
+	return result;
+}
+
+function decodeBase83(text: string): number {
+	let value = 0;
+	for (const char of text) {
+		const digit = BASE83_DIGITS.indexOf(char);
+		if (digit < 0) throw new Error(`Invalid blurhash character "${char}"`);
+		value = value * 83 + digit;
+	}
+	return value;
+}
+
+function sRGBToLinear(value: number): number {
+	const v = value / 255;
+	return v <= 0.04045 ? v / 12.92 : Math.pow((v + 0.055) / 1.055, 2.4);
+}
+
+function linearToSRGB(value: number): number {
+	const v = Math.max(0, Math.min(1, value));
+	return v <= 0.0031308 ? Math.trunc(v * 12.92 * 255 + 0.5) : Math.trunc((1.055 * Math.pow(v, 1 / 2.4) - 0.055) * 255 + 0.5);
+}
+
+const signPow = (value: number, exponent: number): number => Math.sign(value) * Math.pow(Math.abs(value), exponent);
+
+/**
+ * Encode RGBA pixels (row-major, 4 bytes per pixel). Keep the image small
+ * (32px or so): cost grows with pixels × components.
+ */
+export function encodeBlurhash(
+	pixels: Uint8Array | Uint8ClampedArray,
+	width: number,
+	height: number,
+	componentsX = 4,
+	componentsY = 3
+): string {
+	if (componentsX < 1 || componentsX > MAX_COMPONENTS || componentsY < 1 || componentsY > MAX_COMPONENTS) {
+		throw new Error(`Blurhash components must be 1-${MAX_COMPONENTS}, got ${componentsX}×${componentsY}`);
+	}
+	if (width * height * 4 !== pixels.length) {
+		throw new Error(`Expected ${width * height * 4} RGBA bytes, got ${pixels.length}`);
+	}
+
+	const factors: Color[] = [];
+	for (let j = 0; j < componentsY; j++) {
+		for (let i = 0; i < componentsX; i++) {
+			const normalisation = i === 0 && j === 0 ? 1 : 2;
+			const factor: Color = [0, 0, 0];
+			for (let y = 0; y < height; y++) {
+				for (let x = 0; x < width; x++) {
+					const basis =
+						normalisation * Math.cos((Math.PI * i * x) / width) * Math.cos((Math.PI * j * y) / height);
+					const offset = 4 * (x + y * width);
+					factor[0] += basis * sRGBToLinear(pixels.at(offset) ?? 0);
+					factor[1] += basis * sRGBToLinear(pixels.at(offset + 1) ?? 0);
+					factor[2] += basis * sRGBToLinear(pixels.at(offset + 2) ?? 0);
+				}
+			}
+			const scale = 1 / (width * height);
+			factors.push([factor[0] * scale, factor[1] * scale, factor[2] * scale]);
+		}
+	}
+
+	const [dc, ...ac] = factors as [Color, ...Color[]];
+	let hash = encodeBase83(componentsX - 1 + (componentsY - 1) * 9, 1);
+
+	let maximumValue = 1;
+	if (ac.length > 0) {
+		const actualMaximum = Math.max(...ac.flatMap((color) => color.map(Math.abs)));
+		const quantisedMaximum = Math.floor(Math.max(0, Math.min(82, Math.floor(actualMaximum * 166 - 0.5))));
+		maximumValue = (quantisedMaximum + 1) / 166;
+		hash += encodeBase83(quantisedMaximum, 1);
+	} else {
+		hash += encodeBase83(0, 1);
+	}
+
+	hash += encodeBase83((linearToSRGB(dc[0]) << 16) + (linearToSRGB(dc[1]) << 8) + linearToSRGB(dc[2]), 4);
+
+	for (const color of ac) {
+		const quantise = (value: number) =>
+			Math.floor(Math.max(0, Math.min(18, Math.floor(signPow(value / maximumValue, 0.5) * 9 + 9.5))));
+		hash += encodeBase83(quantise(color[0]) * 19 * 19 + quantise(color[1]) * 19 + quantise(color[2]), 2);
+	}
+
+	return hash;
+}
+
+/**
+ * Whether a string is a well-formed blurhash (length matches its component count)
+ */
+export function isBlurhash(hash: string): boolean {
+	if (hash.length < 6) return false;
+	try {
+		const sizeFlag = decodeBase83(hash.charAt(0));
+		const componentsX = (sizeFlag % 9) + 1;
+		const componentsY = Math.floor(sizeFlag / 9) + 1;
+		decodeBase83(hash);
+		return hash.length === 4 + 2 * componentsX * componentsY;
+	} catch {
+		return false;
+	}
+}
+
+/**
+ * Decode to RGBA pixels (`width` × `height`, row-major). `punch` raises contrast.
+ */
+export function decodeBlurhash(hash: string, width: number, height: number, punch = 1): Uint8ClampedArray {
+	if (!isBlurhash(hash)) throw new Error(`Invalid blurhash "${hash}"`);
+
+	const sizeFlag = decodeBase83(hash.charAt(0));
+	const componentsX = (sizeFlag % 9) + 1;
+	const componentsY = Math.floor(sizeFlag / 9) + 1;
+	const maximumValue = ((decodeBase83(hash.charAt(1)) + 1) / 166) * punch;
+
+	const colors: Color[] = [];
+	const dc = decodeBase83(hash.substring(2, 6));
+	colors.push([sRGBToLinear(dc >> 16), sRGBToLinear((dc >> 8) & 255), sRGBToLinear(dc & 255)]);
+	for (let index = 1; index < componentsX * componentsY; index++) {
+		const value = decodeBase83(hash.substring(4 + index * 2, 6 + index * 2));
+		const unquantise = (quantised: number) => signPow((quantised - 9) / 9, 2) * maximumValue;
+		colors.push([
+			unquantise(Math.floor(value / (19 * 19))),
+			unquantise(Math.floor(value / 19) % 19),
+			unquantise(value % 19)
+		]);
+	}
+
+	const pixels = new Uint8ClampedArray(width * height * 4);
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const color: Color = [0, 0, 0];
+			for (let j = 0; j < componentsY; j++) {
+				for (let i = 0; i < componentsX; i++) {
+					const basis = Math.cos((Math.PI * x * i) / width) * Math.cos((Math.PI * y * j) / height);
+					const component = colors.at(i + j * componentsX) ?? [0, 0, 0];
+					color[0] += component[0] * basis;
+					color[1] += component[1] * basis;
+					color[2] += component[2] * basis;
+				}
+			}
+			pixels.set([linearToSRGB(color[0]), linearToSRGB(color[1]), linearToSRGB(color[2]), 255], 4 * (x + y * width));
+		}
+	}
+	return pixels;
+}
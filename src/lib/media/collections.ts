@@ -0,0 +1,37 @@
+/**
+ * The site's media manifest: the media of every published entry, probed once
+ * per build (or dev server) and shared by every page that asks for it.
+ */
+
+// @ts-ignore - provided by Astro at build time
+import { getCollection } from 'astro:content';
+import type { FrontMatterMediaFields, MediaManifest } from './manifest';
+import { buildMediaManifest } from './probe';
+
+const COLLECTIONS = ['projects', 'journey', 'lab', 'notes'] as const;
+
+interface MediaEntry {
+	data: FrontMatterMediaFields & { draft?: boolean };
+}
+
+let manifestPromise: Promise<MediaManifest> | null = null;
+
+async function loadEntries(): Promise<MediaEntry[]> {
+	const collections = await Promise.all(
+		COLLECTIONS.map((name) =>
+			getCollection(name, ({ data }: MediaEntry) => data.draft !== true) as Promise<MediaEntry[]>
+		)
+	);
+	return collections.flat();
+}
+
+/**
+ * Manifest for every published entry; drafts get no page, so they stay out.
+ * Files are looked up in Astro's publicDir (see astro.config.mjs).
+ */
+export function getMediaManifest(): Promise<MediaManifest> {
+	manifestPromise ??= loadEntries().then((entries) =>
+		buildMediaManifest(entries, { publicDir: import.meta.env.MEDIA_PUBLIC_DIR })
+	);
+	return manifestPromise;
+}
@@ -0,0 +1,122 @@
+/**
+ * Build-time media manifest: what the files behind every collection's `media`,
+ * `mediaGallery` and `additionalMedia` really are (size, duration, poster,
+ * dominant hue, blurhash, small preview rendition), keyed by the URL pages render.
+ *
+ * Produced by probe.ts, served as /media-manifest.json and read at build time
+ * by MediaCard, the slug pages and the memory spheres (whose items carry it on
+ * to ThreeRenderer). This module stays free of Node APIs so the types and the
+ * lookup can be shared with client code.
+ */
+
+import { nearestSphereColor } from '../memories/media';
+
+export const MEDIA_MANIFEST_VERSION = 1;
+
+// Width of the preview renditions served under /previews (pages/previews)
+export const PREVIEW_WIDTH = 256;
+
+export type MediaType = 'image' | 'video' | 'gif';
+
+export interface MediaInfo {
+	src: string; // manifest key: public URL, or the optimized URL of an imported image
+	type: MediaType;
+	width?: number | undefined; // intrinsic, orientation applied
+	height?: number | undefined;
+	duration?: number | undefined; // seconds, videos only
+	poster?: string | undefined; // videos: front matter poster, else a same-named image next to the file
+	hue?: number | undefined; // dominant hue 0-359; unset for greyscale media
+	colorClass?: string | undefined; // sphere colour closest to the hue
+	blurhash?: string | undefined;
+	preview?: string | undefined; // small WebP of the image (or the video's poster), see previewUrl
+}
+
+export interface MediaManifest {
+	version: typeof MEDIA_MANIFEST_VERSION;
+	items: Record<string, MediaInfo>;
+}
+
+/**
+ * A media reference as written in front matter (any of the three media fields)
+ */
+export interface FrontMatterMedia {
+	type?: MediaType | undefined;
+	src?: string | { src: string; width?: number; height?: number } | undefined; // public path or imported image
+	publicUrl?: string | undefined;
+	poster?: string | undefined;
+}
+
+export interface FrontMatterMediaFields {
+	media?: FrontMatterMedia | undefined;
+	mediaGallery?: FrontMatterMedia[] | undefined;
+	additionalMedia?: FrontMatterMedia[] | undefined;
+}
+
+// Below this HSL saturation the dominant colour counts as grey: no hue
+const MIN_HUE_SATURATION = 0.12;
+
+/**
+ * URL a reference renders with, which is also its manifest key
+ */
+export function mediaKey(ref: FrontMatterMedia): string | null {
+	const src = ref.publicUrl || ref.src;
+	if (!src) return null;
+	return typeof src === 'object' ? src.src : src;
+}
+
+/**
+ * Every media reference in an entry's front matter, primary media first.
+ * Both gallery fields are read: the manifest covers whichever a page renders.
+ */
+export function collectFrontMatterMedia(data: FrontMatterMediaFields): FrontMatterMedia[] {
+	return [data.media, ...(data.mediaGallery ?? []), ...(data.additionalMedia ?? [])].filter(
+		(ref): ref is FrontMatterMedia => ref !== undefined && mediaKey(ref) !== null
+	);
+}
+
+/**
+ * Hue (0-359) of an sRGB colour, or undefined when it is too grey to have one
+ */
+export function hueFromRgb(r: number, g: number, b: number): number | undefined {
+	const max = Math.max(r, g, b) / 255;
+	const min = Math.min(r, g, b) / 255;
+	const delta = max - min;
+	const lightness = (max + min) / 2;
+	const saturation = delta === 0 ? 0 : delta / (1 - Math.abs(2 * lightness - 1));
+	if (saturation < MIN_HUE_SATURATION) return undefined;
+
+	const [red, green, blue] = [r / 255, g / 255, b / 255];
+	let hue: number;
+	if (max === red) {
+		hue = ((green - blue) / delta) % 6;
+	} else if (max === green) {
+		hue = (blue - red) / delta + 2;
+	} else {
+		hue = (red - green) / delta + 4;
+	}
+	return Math.round((hue * 60 + 360) % 360);
+}
+
+/**
+ * Hue plus the sphere colour class that goes with it
+ */
+export function describeColor(r: number, g: number, b: number): Pick<MediaInfo, 'hue' | 'colorClass'> {
+	const hue = hueFromRgb(r, g, b);
+	return hue === undefined ? {} : { hue, colorClass: nearestSphereColor(hue).className };
+}
+
+/**
+ * URL of the PREVIEW_WIDTH WebP rendition of a public image
+ */
+export function previewUrl(src: string): string {
+	return `/previews${src.split(/[?#]/)[0] ?? src}.webp`;
+}
+
+/**
+ * Lookup by rendered URL; unknown URLs (remote media, files added since the
+ * build) return undefined
+ */
+export function createMediaLookup(manifest: MediaManifest): (src: string | undefined) => MediaInfo | undefined {
+	const items = new Map(Object.entries(manifest.items));
+	return (src) => (src ? items.get(src) : undefined);
+}
@@ -0,0 +1,111 @@
+/**
+ * Minimal ISO base media (MP4 / MOV) reader: just enough of the `moov` box to
+ * get a video's duration and display size at build time without ffprobe.
+ */
+
+export interface Mp4Info {
+	duration: number; // seconds
+	width?: number | undefined; // display size of the first video track
+	height?: number | undefined;
+}
+
+export interface BoxHeader {
+	type: string;
+	size: number; // whole box, header included (0 = runs to the end of the file)
+	headerSize: number;
+}
+
+// Boxes that only wrap other boxes on the way to `tkhd`
+const CONTAINER_BOXES = new Set(['moov', 'trak']);
+
+/**
+ * Read the box header at `offset`; null when fewer than 8 bytes remain
+ */
+export function readBoxHeader(view: DataView, offset: number): BoxHeader | null {
+	if (offset + 8 > view.byteLength) return null;
+
+	const size = view.getUint32(offset);
+	const type = String.fromCharCode(
+		view.getUint8(offset + 4),
+		view.getUint8(offset + 5),
+		view.getUint8(offset + 6),
+		view.getUint8(offset + 7)
+	);
+	if (size === 1) {
+		// 64-bit size follows the type
+		if (offset + 16 > view.byteLength) return null;
+		return { type, size: Number(view.getBigUint64(offset + 8)), headerSize: 16 };
+	}
+	return { type, size, headerSize: 8 };
+}
+
+/**
+ * Child boxes of the box body spanning [start, end)
+ */
+function* childBoxes(view: DataView, start: number, end: number): Generator<{ header: BoxHeader; offset: number }> {
+	let offset = start;
+	while (offset < end) {
+		const header = readBoxHeader(view, offset);
+		if (!header) return;
+		const size = header.size === 0 ? end - offset : header.size;
+		if (size < header.headerSize) return; // corrupt
+		yield { header: { ...header, size }, offset };
+		offset += size;
+	}
+}
+
+function readMovieHeader(view: DataView, body: number): number | null {
+	const version = view.getUint8(body);
+	const timescale = view.getUint32(body + (version === 1 ? 20 : 12));
+	const duration = version === 1 ? Number(view.getBigUint64(body + 24)) : view.getUint32(body + 16);
+	return timescale > 0 ? duration / timescale : null;
+}
+
+function readTrackSize(view: DataView, body: number): { width: number; height: number } | null {
+	const version = view.getUint8(body);
+	const matrix = body + (version === 1 ? 52 : 40);
+	const sizeOffset = body + (version === 1 ? 88 : 76);
+	if (sizeOffset + 8 > view.byteLength) return null;
+
+	// 16.16 fixed point
+	const width = Math.round(view.getUint32(sizeOffset) / 65536);
+	const height = Math.round(view.getUint32(sizeOffset + 4) / 65536);
+	if (width === 0 || height === 0) return null; // audio track
+
+	// Portrait phone clips are stored landscape with a 90° rotation matrix
+	const rotated = view.getInt32(matrix) === 0 && Math.abs(view.getInt32(matrix + 4)) === 65536;
+	return rotated ? { width: height, height: width } : { width, height };
+}
+
+/**
+ * Duration and size from a buffer holding a `moov` box (or a whole file);
+ * null when there is no readable movie header
+ */
+export function readMp4Info(data: Uint8Array): Mp4Info | null {
+	const view = new DataView(data.buffer, data.byteOffset, data.byteLength);
+	const found: { duration: number | null; size: { width: number; height: number } | null } = {
+		duration: null,
+		size: null
+	};
+
+	const walk = (start: number, end: number) => {
+		for (const { header, offset } of childBoxes(view, start, Math.min(end, view.byteLength))) {
+			const body = offset + header.headerSize;
+			if (header.type === 'mvhd') {
+				found.duration = readMovieHeader(view, body);
+			} else if (header.type === 'tkhd' && !found.size) {
+				found.size = readTrackSize(view, body);
+			} else if (CONTAINER_BOXES.has(header.type)) {
+				walk(body, offset + header.size);
+			}
+		}
+	};
+	try {
+		walk(0, view.byteLength);
+	} catch {
+		return null; // truncated box
+	}
+
+	if (found.duration === null) return null;
+	return { duration: found.duration, width: found.size?.width, height: found.size?.height };
+}
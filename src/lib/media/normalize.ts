@@ -0,0 +1,145 @@
+/**
+ * One media list per entry, for every collection: the primary `media`, then
+ * `additionalMedia` and the older `mediaGallery` (both of them, not one or the
+ * other), in placement order and carrying the directives the detail pages
+ * position each item by. The slug pages and the memory spheres (see
+ * buildMemoryMedia) all read entries through normalizeEntryMedia.
+ */
+
+import { mediaKey, type FrontMatterMedia, type FrontMatterMediaFields, type MediaInfo, type MediaType } from './manifest';
+
+/**
+ * Where a detail page puts an item (see rehypeMediaPlacement)
+ */
+export interface MediaPlacement {
+	position?: number | undefined; // after the Nth content section (1-based)
+	insertAfterH2?: string | undefined;
+	insertBeforeH2?: string | undefined;
+	insertAfterH3?: string | undefined;
+	insertBeforeH3?: string | undefined;
+	insertAt?: 'inside-top' | 'inside-bottom' | number | undefined;
+}
+
+/**
+ * An image imported through `image()` in the content schema
+ */
+export interface ImportedImage {
+	src: string;
+	width?: number;
+	height?: number;
+}
+
+/**
+ * Any of the three front matter media fields, as the schema parses them
+ */
+export interface EntryMediaRef extends FrontMatterMedia, MediaPlacement {
+	src?: string | ImportedImage | undefined;
+	alt?: string | undefined;
+	caption?: string | undefined;
+	aspectRatio?: string | undefined;
+	cssClass?: string | undefined;
+	autoplay?: boolean | undefined;
+	width?: number | undefined;
+	height?: number | undefined;
+}
+
+export interface EntryMediaData extends FrontMatterMediaFields {
+	title: string;
+	media?: EntryMediaRef | undefined;
+	mediaGallery?: EntryMediaRef[] | undefined;
+	additionalMedia?: EntryMediaRef[] | undefined;
+}
+
+export interface NormalizedMedia extends MediaPlacement {
+	src: string; // URL the file renders at (also its media manifest key)
+	image?: ImportedImage; // imported images: render through <Image>
+	type: MediaType;
+	primary: boolean; // the entry's `media` rather than a gallery item
+	alt?: string;
+	caption: string; // primary: alt, else the entry title; gallery: caption, else alt, else ''
+	poster?: string;
+	aspectRatio?: string;
+	cssClass?: string;
+	autoplay?: boolean;
+	width?: number;
+	height?: number;
+}
+
+export interface NormalizeOptions {
+	// Probed sizes and posters from the build-time media manifest (see createMediaLookup)
+	lookupMediaInfo?: (src: string) => MediaInfo | undefined;
+	// Front matter order instead of placement order (the memory spheres' orbs)
+	frontMatterOrder?: boolean;
+}
+
+/**
+ * Copy of `source` without its undefined fields (optional props stay absent)
+ */
+function definedFields<T extends object>(source: T): { [K in keyof T]?: Exclude<T[K], undefined> } {
+	return Object.fromEntries(Object.entries(source).filter(([, value]) => value !== undefined)) as {
+		[K in keyof T]?: Exclude<T[K], undefined>;
+	};
+}
+
+function normalizeRef(
+	ref: EntryMediaRef,
+	src: string,
+	primary: boolean,
+	title: string,
+	info: MediaInfo | undefined
+): NormalizedMedia {
+	return {
+		...definedFields({
+			position: ref.position,
+			insertAfterH2: ref.insertAfterH2,
+			insertBeforeH2: ref.insertBeforeH2,
+			insertAfterH3: ref.insertAfterH3,
+			insertBeforeH3: ref.insertBeforeH3,
+			insertAt: ref.insertAt,
+			image: typeof ref.src === 'object' && !ref.publicUrl ? ref.src : undefined,
+			alt: ref.alt,
+			poster: ref.poster ?? info?.poster,
+			aspectRatio: ref.aspectRatio,
+			cssClass: ref.cssClass,
+			autoplay: ref.autoplay,
+			// Probed sizes win over hand-written ones
+			width: info?.width ?? ref.width,
+			height: info?.height ?? ref.height
+		}),
+		src,
+		type: ref.type ?? 'image',
+		primary,
+		caption: primary ? (ref.alt ?? title) : ref.caption || ref.alt || ''
+	};
+}
+
+/**
+ * Every media item of an entry in the order detail pages place them: items
+ * with a `position` first (ascending), then the rest in front matter order.
+ * A file listed in both gallery fields appears once, as its `additionalMedia`
+ * item; gallery items showing the primary file again are kept. References
+ * without a file are skipped.
+ */
+export function normalizeEntryMedia(data: EntryMediaData, options: NormalizeOptions = {}): NormalizedMedia[] {
+	const { lookupMediaInfo = () => undefined, frontMatterOrder = false } = options;
+	const additional = new Set((data.additionalMedia ?? []).map(mediaKey));
+	const items: NormalizedMedia[] = [];
+
+	const refs = [
+		...(data.media ? [{ ref: data.media, primary: true }] : []),
+		...(data.additionalMedia ?? []).map((ref) => ({ ref, primary: false })),
+		...(data.mediaGallery ?? [])
+			.filter((ref) => !additional.has(mediaKey(ref)))
+			.map((ref) => ({ ref, primary: false }))
+	];
+	for (const { ref, primary } of refs) {
+		const src = mediaKey(ref);
+		if (!src) continue;
+		items.push(normalizeRef(ref, src, primary, data.title, lookupMediaInfo(src)));
+	}
+	if (frontMatterOrder) return items;
+
+	// Array#sort is stable, so unpositioned items keep their front matter order
+	const rank = (item: NormalizedMedia) => item.position ?? Number.POSITIVE_INFINITY;
+	return items.sort((a, b) => (rank(a) === rank(b) ? 0 : rank(a) - rank(b)));
+}
@@ -0,0 +1,229 @@
+/**
+ * Build-time media probe: opens every file the front matter points at and
+ * records what it really is (see manifest.ts for the result's shape).
+ *
+ * Node-only. Images go through sharp, which Astro's image service already
+ * depends on; without it images keep whatever size the front matter gives.
+ * Videos are read with the small MP4 parser in mp4.ts (WebM gets no duration).
+ */
+
+import { existsSync } from 'fs';
+import { open } from 'fs/promises';
+import { extname, join, relative, resolve, isAbsolute } from 'path';
+import { encodeBlurhash } from './blurhash';
+import {
+	MEDIA_MANIFEST_VERSION,
+	PREVIEW_WIDTH,
+	collectFrontMatterMedia,
+	describeColor,
+	mediaKey,
+	previewUrl,
+	type FrontMatterMedia,
+	type FrontMatterMediaFields,
+	type MediaInfo,
+	type MediaManifest
+} from './manifest';
+import { readBoxHeader, readMp4Info, type Mp4Info } from './mp4';
+
+export interface ProbeOptions {
+	publicDir: string; // where site-relative URLs (/media/...) live
+}
+
+type ImageFacts = Pick<MediaInfo, 'width' | 'height' | 'hue' | 'colorClass' | 'blurhash'>;
+type SharpFactory = typeof import('sharp');
+
+export const DEFAULT_PUBLIC_DIR = join(process.cwd(), 'public');
+
+const VIDEO_EXTENSIONS = new Set(['.mp4', '.m4v', '.mov', '.webm']);
+const POSTER_EXTENSIONS = ['.webp', '.jpg', '.jpeg', '.png', '.avif'];
+// Blurhash source size (longest side, px) and components per axis
+const BLURHASH_SAMPLE_SIZE = 32;
+const BLURHASH_COMPONENTS: [number, number] = [4, 3];
+// Largest moov box we read into memory; real ones are a few hundred KB
+const MAX_MOOV_BYTES = 16 * 1024 * 1024;
+
+let sharpLoader: Promise<SharpFactory | null> | null = null;
+
+function loadSharp(): Promise<SharpFactory | null> {
+	sharpLoader ??= import('sharp')
+		.then((module) => module.default)
+		.catch(() => {
+			console.warn('⚠️ Media manifest: sharp is not installed, images are not probed');
+			return null;
+		});
+	return sharpLoader;
+}
+
+/**
+ * File behind a site-relative URL, or null for remote URLs and paths that
+ * would leave the public directory
+ */
+export function resolvePublicPath(url: string, publicDir: string): string | null {
+	if (!url.startsWith('/') || url.startsWith('//')) return null;
+
+	const pathname = decodeURIComponent(url.split(/[?#]/)[0] ?? '');
+	const root = resolve(publicDir);
+	const path = resolve(root, `.${pathname}`);
+	const inside = relative(root, path);
+	return inside && !inside.startsWith('..') && !isAbsolute(inside) ? path : null;
+}
+
+/**
+ * Size, dominant hue and blurhash of an image file (first frame for GIFs)
+ */
+export async function probeImageFile(path: string): Promise<ImageFacts | null> {
+	const sharp = await loadSharp();
+	if (!sharp) return null;
+
+	const metadata = await sharp(path).metadata();
+	// EXIF orientations 5-8 are rotated a quarter turn
+	const rotated = (metadata.orientation ?? 1) >= 5;
+	const width = rotated ? metadata.height : metadata.width;
+	const height = rotated ? metadata.width : metadata.height;
+
+	const { dominant } = await sharp(path).stats();
+	const { data, info } = await sharp(path)
+		.rotate()
+		.resize(BLURHASH_SAMPLE_SIZE, BLURHASH_SAMPLE_SIZE, { fit: 'inside' })
+		.ensureAlpha()
+		.raw()
+		.toBuffer({ resolveWithObject: true });
+
+	return {
+		width,
+		height,
+		...describeColor(dominant.r, dominant.g, dominant.b),
+		blurhash: encodeBlurhash(new Uint8Array(data), info.width, info.height, ...BLURHASH_COMPONENTS)
+	};
+}
+
+/**
+ * WebP rendition of an image file, PREVIEW_WIDTH wide (never upscaled), for
+ * the /previews endpoint; null without sharp
+ */
+export async function renderPreview(path: string): Promise<Buffer | null> {
+	const sharp = await loadSharp();
+	if (!sharp) return null;
+	return sharp(path).rotate().resize({ width: PREVIEW_WIDTH, withoutEnlargement: true }).webp({ quality: 70 }).toBuffer();
+}
+
+/**
+ * Duration and display size of an MP4/MOV file. Only the box headers and
+ * the `moov` box are read, wherever it sits in the file.
+ */
+export async function probeVideoFile(path: string): Promise<Mp4Info | null> {
+	const file = await open(path, 'r');
+	try {
+		const { size: fileSize } = await file.stat();
+		const header = new Uint8Array(16);
+		let offset = 0;
+
+		while (offset < fileSize) {
+			const { bytesRead } = await file.read(header, 0, header.length, offset);
+			const box = readBoxHeader(new DataView(header.buffer, 0, bytesRead), 0);
+			if (!box) return null;
+
+			const size = box.size === 0 ? fileSize - offset : box.size;
+			if (box.type === 'moov') {
+				if (size > MAX_MOOV_BYTES) return null;
+				const moov = new Uint8Array(size);
+				await file.read(moov, 0, size, offset);
+				return readMp4Info(moov);
+			}
+			if (size < box.headerSize) return null;
+			offset += size;
+		}
+		return null;
+	} finally {
+		await file.close();
+	}
+}
+
+/**
+ * `clip.webp` (or .jpg, .png...) next to `clip.mp4`, as a URL
+ */
+export function findSiblingPoster(videoUrl: string, publicDir: string): string | null {
+	const extension = extname(videoUrl.split(/[?#]/)[0] ?? '');
+	const base = videoUrl.slice(0, videoUrl.lastIndexOf(extension));
+
+	for (const candidate of POSTER_EXTENSIONS.map((posterExtension) => `${base}${posterExtension}`)) {
+		const path = resolvePublicPath(candidate, publicDir);
+		if (path && existsSync(path)) return candidate;
+	}
+	return null;
+}
+
+function isVideo(ref: FrontMatterMedia, key: string): boolean {
+	return ref.type === 'video' || VIDEO_EXTENSIONS.has(extname(key.split(/[?#]/)[0] ?? '').toLowerCase());
+}
+
+/**
+ * Everything the probe can tell about one front matter reference; failures
+ * are logged and leave the fields unset rather than failing the build
+ */
+export async function probeMedia(ref: FrontMatterMedia, options: ProbeOptions): Promise<MediaInfo | null> {
+	const key = mediaKey(ref);
+	if (!key) return null;
+
+	const type = ref.type ?? (isVideo(ref, key) ? 'video' : 'image');
+	const info: MediaInfo = { src: key, type };
+	// Imported images (image() in the schema) carry their size and source file
+	const imported = typeof ref.src === 'object' && !ref.publicUrl ? ref.src : null;
+	const path = imported
+		? ((imported as { fsPath?: string }).fsPath ?? null)
+		: resolvePublicPath(key, options.publicDir);
+	if (imported) {
+		info.width = imported.width;
+		info.height = imported.height;
+	}
+
+	try {
+		if (type === 'video') {
+			const video = path && existsSync(path) ? await probeVideoFile(path) : null;
+			if (video) {
+				info.duration = video.duration;
+				info.width = video.width;
+				info.height = video.height;
+			}
+			const poster = ref.poster ?? findSiblingPoster(key, options.publicDir);
+			const posterPath = poster ? resolvePublicPath(poster, options.publicDir) : null;
+			if (poster) info.poster = poster;
+			if (poster && posterPath && existsSync(posterPath)) {
+				// Hue and blurhash come from the poster; size stays the video's
+				const facts = await probeImageFile(posterPath);
+				if (facts) {
+					const { hue, colorClass, blurhash } = facts;
+					Object.assign(info, { hue, colorClass, blurhash, preview: previewUrl(poster) });
+				}
+			}
+		} else if (path && existsSync(path)) {
+			const facts = await probeImageFile(path);
+			Object.assign(info, facts);
+			// Renditions are cut from public files only (imported images have Astro's)
+			if (facts && !imported) info.preview = previewUrl(key);
+		}
+	} catch (error) {
+		console.warn(`⚠️ Media manifest: could not probe ${key}`, error);
+	}
+
+	return info;
+}
+
+/**
+ * Probe every media reference of the given entries (each file once)
+ */
+export async function buildMediaManifest(
+	entries: { data: FrontMatterMediaFields }[],
+	options: ProbeOptions
+): Promise<MediaManifest> {
+	const items = new Map<string, MediaInfo>();
+
+	for (const ref of entries.flatMap((entry) => collectFrontMatterMedia(entry.data))) {
+		const key = mediaKey(ref);
+		if (!key || items.has(key)) continue;
+		const info = await probeMedia(ref, options);
+		if (info) items.set(key, info);
+	}
+
+	return { version: MEDIA_MANIFEST_VERSION, items: Object.fromEntries(items) };
+}
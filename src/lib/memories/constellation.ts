@@ -0,0 +1,133 @@
+import type { MediaInfo } from '../media/manifest';
+import type { EntryMediaData } from '../media/normalize';
+import { SPHERE_COLORS, buildMemoryMedia, nearestSphereColor, type MemoryMediaItem } from './media';
+import type { RandomSource } from './random';
+
+/**
+ * The memory constellation (/journey/constellation): every published journey
+ * entry's media in one sphere field. Each entry becomes a cluster of orbs around
+ * its own centre, tinted by the entry's life phase (front matter `lifePhase`)
+ * or, failing that, its first tag.
+ */
+
+export const LIFE_PHASES = [
+	{ id: 'childhood', label: 'Childhood', hue: 215 },
+	{ id: 'adolescence', label: 'Adolescence', hue: 25 },
+	{ id: 'young-adulthood', label: 'Young Adulthood', hue: 275 },
+	{ id: 'early-adulthood', label: 'Early Adulthood', hue: 190 },
+	{ id: 'middle-adulthood', label: 'Middle Adulthood', hue: 45 },
+	{ id: 'late-adulthood', label: 'Late Adulthood', hue: 330 },
+	{ id: 'advanced-age', label: 'Advanced Age', hue: 150 }
+] as const;
+
+export type LifePhaseId = (typeof LIFE_PHASES)[number]['id'];
+
+interface JourneyEntry {
+	slug: string;
+	data: EntryMediaData & { tags: string[]; lifePhase?: LifePhaseId | undefined };
+}
+
+// Tags cycle through the same hues as single-entry sphere pages
+const TAG_HUES = SPHERE_COLORS.map((color) => color.hue);
+
+// Cluster centres stay inside this band of the viewport (fractions)
+const FIELD_RADIUS = 0.33;
+const GOLDEN_ANGLE = Math.PI * (3 - Math.sqrt(5));
+
+export interface ConstellationGroup {
+	slug: string;
+	title: string;
+	href: string; // the entry's own journey page
+	label: string; // life phase or tag the colour stands for
+	hue: number;
+	x: number; // cluster centre, fraction of the viewport width
+	y: number; // fraction of the viewport height
+	radius: number; // fraction of the smaller viewport side orbs stay within
+}
+
+export interface MemoryConstellation {
+	groups: ConstellationGroup[];
+	media: MemoryMediaItem[];
+}
+
+/**
+ * Cluster centres on a sunflower spiral: evenly spread for any count, same
+ * layout every build
+ */
+export function layoutClusterCenters(count: number): { x: number; y: number }[] {
+	return Array.from({ length: count }, (_, index) => {
+		if (count === 1) return { x: 0.5, y: 0.5 };
+		const distance = FIELD_RADIUS * Math.sqrt((index + 0.5) / count);
+		const angle = index * GOLDEN_ANGLE;
+		return { x: 0.5 + Math.cos(angle) * distance, y: 0.5 + Math.sin(angle) * distance };
+	});
+}
+
+/**
+ * Colour key for an entry: its life phase when set, otherwise its first tag
+ */
+function resolveGroupColor(
+	data: JourneyEntry['data'],
+	tagHues: Map<string, number>
+): { label: string; hue: number } {
+	const phase = LIFE_PHASES.find((candidate) => candidate.id === data.lifePhase);
+	if (phase) return { label: phase.label, hue: phase.hue };
+
+	const tag = data.tags[0] ?? 'journey';
+	const hue = tagHues.get(tag) ?? TAG_HUES.at(tagHues.size % TAG_HUES.length) ?? 330;
+	tagHues.set(tag, hue);
+	return { label: tag, hue };
+}
+
+/**
+ * Combined manifest for the constellation. Entries without media are left out;
+ * media ids are prefixed with the entry slug so share links stay unique.
+ */
+export function buildConstellation(
+	entries: JourneyEntry[],
+	lookupMediaInfo?: (src: string) => MediaInfo | undefined
+): MemoryConstellation {
+	const withMedia = entries
+		.map((entry) => ({ entry, items: buildMemoryMedia(entry, lookupMediaInfo) }))
+		.filter(({ items }) => items.length > 0);
+	const centers = layoutClusterCenters(withMedia.length);
+	const clusterRadius = Math.max(0.08, 0.3 / Math.sqrt(Math.max(1, withMedia.length)));
+	const tagHues = new Map<string, number>();
+
+	const groups: ConstellationGroup[] = [];
+	const media: MemoryMediaItem[] = [];
+
+	withMedia.forEach(({ entry, items }, cluster) => {
+		const { label, hue } = resolveGroupColor(entry.data, tagHues);
+		const center = centers.at(cluster) ?? { x: 0.5, y: 0.5 };
+		const href = `/journey/${entry.slug}`;
+		groups.push({ slug: entry.slug, title: entry.data.title, href, label, hue, ...center, radius: clusterRadius });
+
+		items.forEach((item) => {
+			media.push({
+				...item,
+				id: `${entry.slug}/${item.id}`,
+				hue,
+				colorClass: nearestSphereColor(hue).className,
+				cluster,
+				source: { href, title: entry.data.title }
+			});
+		});
+	});
+
+	return { groups, media };
+}
+
+/**
+ * Starting spot (viewport percent, like MemorySpheresLayout's positions) for an
+ * orb of `group`, scattered around its centre; physics pulls it the rest of the way
+ */
+export function scatterInGroup(group: ConstellationGroup, random: RandomSource): { startX: number; startY: number } {
+	const angle = random() * Math.PI * 2;
+	const distance = Math.sqrt(random()) * group.radius;
+	const clampPercent = (value: number) => Math.min(92, Math.max(8, value * 100));
+	return {
+		startX: clampPercent(group.x + Math.cos(angle) * distance),
+		startY: clampPercent(group.y + Math.sin(angle) * distance)
+	};
+}
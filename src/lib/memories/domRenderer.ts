@@ -0,0 +1,242 @@
+import type { MemoryMediaItem } from './media';
+import type { SphereBody, ViewportSize } from './physics';
+import type { PointerPoint, SphereRenderer, SphereRendererOptions } from './sphereRenderer';
+
+/**
+ * Plain-DOM orbs for browsers without WebGL (or when the context cannot be created).
+ * Each orb is a round, absolutely positioned element holding an <img> or <video>;
+ * the physics, pointer callbacks and centering work exactly as with ThreeRenderer.
+ */
+
+interface DomOrb {
+	element: HTMLElement;
+	media: HTMLImageElement | HTMLVideoElement;
+	bodyId: number;
+}
+
+// Same perspective as ThreeRenderer's camera, so orbs keep their size when falling back
+const DEPTH_CAMERA_Z = 1200;
+// Pointer travel (px) past which a press counts as a drag rather than a click
+const CLICK_SLOP_PX = 6;
+
+export class DomRenderer implements SphereRenderer {
+	private readonly options: SphereRendererOptions;
+	private readonly layer: HTMLElement;
+	private orbs: DomOrb[] = [];
+	private centeredIndex: number | null = null;
+	private mediaPaused = false;
+	private grabbedId: number | null = null;
+	private pointerDown: PointerPoint | null = null;
+	private pressedId: number | null = null; // orb under the press; pointer capture retargets the click
+	private readonly cleanups: (() => void)[] = [];
+
+	constructor(options: SphereRendererOptions) {
+		this.options = options;
+		this.layer = document.createElement('div');
+		this.layer.className = 'dom-orbs';
+		this.layer.style.cssText = 'position:absolute;inset:0;overflow:hidden;touch-action:none;';
+		this.options.container.appendChild(this.layer);
+
+		this.listen('pointermove', (event) => this.onPointerMove(event));
+		this.listen('pointerdown', (event) => this.onPointerDown(event));
+		this.listen('pointerup', (event) => this.onPointerUp(event));
+		this.listen('pointercancel', (event) => this.onPointerUp(event));
+		this.listen('pointerleave', () => {
+			if (this.grabbedId === null) this.options.onHover?.(null);
+		});
+		this.listen('click', (event) => this.onClick(event));
+	}
+
+	init(mediaItems: MemoryMediaItem[], bodies: SphereBody[]): Promise<void> {
+		mediaItems.forEach((item, index) => {
+			const body = bodies.at(index);
+			if (!body) return;
+
+			const element = document.createElement('div');
+			element.dataset['orbId'] = String(body.id);
+			element.style.cssText =
+				'position:absolute;left:0;top:0;border-radius:50%;overflow:hidden;will-change:transform;' +
+				'transition:opacity 0.6s ease, filter 0.6s ease;';
+			// Tinted rim standing in for the glass overlay texture
+			const rim = item.hue === undefined ? 'rgba(255, 255, 255, 0.35)' : `hsl(${item.hue} 100% 65% / 0.6)`;
+			element.style.boxShadow = `0 0 0 2px ${rim}, 0 0 24px ${rim}`;
+
+			const media = this.createMedia(item);
+			media.style.cssText = 'width:100%;height:100%;object-fit:cover;pointer-events:none;';
+			element.appendChild(media);
+			this.layer.appendChild(element);
+
+			this.orbs.push({ element, media, bodyId: body.id });
+		});
+
+		console.log(`✓ DomRenderer: created ${this.orbs.length} orbs (WebGL unavailable)`);
+		return Promise.resolve();
+	}
+
+	update(bodies: SphereBody[], centerIdx: number | null): void {
+		this.centeredIndex = centerIdx;
+
+		bodies.forEach((body) => {
+			const orb = this.orbs.find((o) => o.bodyId === body.id);
+			if (!orb) return;
+
+			const depthScale = DEPTH_CAMERA_Z / (DEPTH_CAMERA_Z - body.z);
+			const diameter = body.radius * 2 * depthScale;
+			const style = orb.element.style;
+			style.width = `${diameter}px`;
+			style.height = `${diameter}px`;
+			style.transform = `translate3d(${body.x - diameter / 2}px, ${body.y - diameter / 2}px, 0)`;
+			style.zIndex = String(centerIdx === body.id ? 1000 : Math.round(body.z) + 100);
+
+			// Same states as the WebGL shader: dreamy at rest, sharp when centered, dimmed behind it
+			const isFocused = centerIdx === body.id;
+			const isDimmed = centerIdx !== null && !isFocused;
+			style.opacity = isDimmed ? '0.3' : isFocused ? '1' : '0.75';
+			style.filter = isFocused ? 'none' : 'saturate(0.6) brightness(0.8)';
+		});
+	}
+
+	resize(viewport: ViewportSize): void {
+		// Orbs are positioned in container pixels already; only the layer follows the container
+		this.layer.style.width = `${viewport.width}px`;
+		this.layer.style.height = `${viewport.height}px`;
+	}
+
+	destroy(): void {
+		this.cleanups.forEach((cleanup) => cleanup());
+		this.cleanups.length = 0;
+		this.orbs.forEach((orb) => {
+			if (orb.media instanceof HTMLVideoElement) {
+				orb.media.pause();
+				orb.media.src = '';
+			}
+		});
+		this.orbs = [];
+		this.layer.remove();
+	}
+
+	setCenter(index: number): void {
+		this.centeredIndex = index;
+		const video = this.getVideo(index);
+		if (!video) return;
+
+		// Videos only download once centered (preload="none" until then)
+		video.preload = 'auto';
+		if (!this.mediaPaused) this.playVideo(video);
+		if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+			this.options.onMediaReady?.(index);
+		} else {
+			video.addEventListener('loadedmetadata', () => this.options.onMediaReady?.(index), { once: true });
+		}
+	}
+
+	setMediaPaused(paused: boolean): void {
+		this.mediaPaused = paused;
+		const video = this.centeredIndex === null ? null : this.getVideo(this.centeredIndex);
+		if (!video) return;
+		if (paused) {
+			video.pause();
+		} else {
+			this.playVideo(video);
+		}
+	}
+
+	clearCenter(index: number): void {
+		if (this.centeredIndex === index) {
+			this.centeredIndex = null;
+		}
+		this.getVideo(index)?.pause();
+	}
+
+	getVideo(id: number): HTMLVideoElement | null {
+		const media = this.orbs.find((o) => o.bodyId === id)?.media;
+		return media instanceof HTMLVideoElement ? media : null;
+	}
+
+	private playVideo(video: HTMLVideoElement): void {
+		video.play().catch(() => {
+			// Autoplay can still be blocked on some browsers; ignore silently
+		});
+	}
+
+	private createMedia(item: MemoryMediaItem): HTMLImageElement | HTMLVideoElement {
+		if (item.type === 'video') {
+			const video = document.createElement('video');
+			video.muted = true;
+			video.loop = true;
+			video.playsInline = true;
+			video.setAttribute('playsinline', '');
+			video.preload = 'none';
+			if (item.poster) video.poster = item.poster;
+			video.src = item.src;
+			return video;
+		}
+
+		const image = document.createElement('img');
+		image.decoding = 'async';
+		image.alt = ''; // the accessible orb list carries the descriptions
+		image.draggable = false;
+		image.src = item.src;
+		return image;
+	}
+
+	private listen(type: string, handler: (event: PointerEvent) => void): void {
+		const listener = (event: Event) => handler(event as PointerEvent);
+		this.layer.addEventListener(type, listener);
+		this.cleanups.push(() => this.layer.removeEventListener(type, listener));
+	}
+
+	private getPointerPoint(event: PointerEvent): PointerPoint {
+		const rect = this.layer.getBoundingClientRect();
+		return { x: event.clientX - rect.left, y: event.clientY - rect.top, time: event.timeStamp };
+	}
+
+	private orbIdAt(event: PointerEvent): number | null {
+		const element = (event.target as HTMLElement | null)?.closest<HTMLElement>('[data-orb-id]');
+		const id = element?.dataset['orbId'];
+		return id === undefined ? null : Number(id);
+	}
+
+	private onPointerMove(event: PointerEvent): void {
+		if (this.grabbedId !== null) {
+			this.options.onDrag?.(this.grabbedId, this.getPointerPoint(event));
+		} else {
+			this.options.onHover?.(this.getPointerPoint(event));
+		}
+	}
+
+	private onPointerDown(event: PointerEvent): void {
+		const point = this.getPointerPoint(event);
+		this.pointerDown = point;
+
+		const id = this.orbIdAt(event);
+		this.pressedId = id;
+		if (id !== null && this.options.onGrab?.(id, point)) {
+			this.grabbedId = id;
+			// Keep receiving moves while dragging outside the layer
+			this.layer.setPointerCapture(event.pointerId);
+			this.options.onHover?.(null);
+		}
+	}
+
+	private onPointerUp(event: PointerEvent): void {
+		if (this.grabbedId === null) return;
+
+		const id = this.grabbedId;
+		this.grabbedId = null;
+		if (this.layer.hasPointerCapture(event.pointerId)) {
+			this.layer.releasePointerCapture(event.pointerId);
+		}
+		this.options.onRelease?.(id, this.getPointerPoint(event));
+	}
+
+	private onClick(event: PointerEvent): void {
+		const point = this.getPointerPoint(event);
+		const start = this.pointerDown ?? point;
+		if (Math.hypot(point.x - start.x, point.y - start.y) > CLICK_SLOP_PX) return;
+
+		const id = this.pressedId;
+		this.pressedId = null;
+		if (id !== null) this.options.onSelect(id);
+	}
+}
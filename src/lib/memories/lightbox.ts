@@ -0,0 +1,189 @@
+/**
+ * Detail panel shown beside the centered orb.
+ * Binds to the `[data-lightbox-*]` markup rendered by MemorySpheresLayout;
+ * which orb is centered stays the client's business, the panel only reports
+ * next/previous/close clicks back through its callbacks.
+ */
+
+import type { MemoryMediaItem } from './media';
+
+interface MemoryLightboxOptions {
+	root: HTMLElement;
+	onPrevious: () => void;
+	onNext: () => void;
+	onClose: () => void;
+	// The viewer paused (true) or resumed (false) the video with the play button
+	onPlaybackToggle: (paused: boolean) => void;
+}
+
+const MEDIA_TYPE_LABELS = new Map<MemoryMediaItem['type'], string>([
+	['image', 'Photo'],
+	['video', 'Video'],
+	['gif', 'Animated GIF']
+]);
+
+// Scrub input resolution (range steps over the whole clip)
+const SCRUB_STEPS = 1000;
+
+export function describeMediaType(type: MemoryMediaItem['type']): string {
+	return MEDIA_TYPE_LABELS.get(type) ?? 'Media';
+}
+
+/**
+ * Seconds as m:ss (or h:mm:ss for long clips)
+ */
+export function formatMediaTime(seconds: number): string {
+	const total = Number.isFinite(seconds) ? Math.max(0, Math.floor(seconds)) : 0;
+	const hours = Math.floor(total / 3600);
+	const minutes = Math.floor((total % 3600) / 60);
+	const secs = String(total % 60).padStart(2, '0');
+	return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+}
+
+export class MemoryLightbox {
+	private readonly root: HTMLElement;
+	private readonly caption: HTMLElement | null;
+	private readonly meta: HTMLElement | null;
+	private readonly source: HTMLAnchorElement | null;
+	private readonly position: HTMLElement | null;
+	private readonly videoControls: HTMLElement | null;
+	private readonly playButton: HTMLButtonElement | null;
+	private readonly scrub: HTMLInputElement | null;
+	private readonly time: HTMLElement | null;
+	private video: HTMLVideoElement | null = null;
+	private readonly onPlaybackToggle: (paused: boolean) => void;
+	private readonly cleanups: (() => void)[] = [];
+
+	constructor(options: MemoryLightboxOptions) {
+		this.root = options.root;
+		this.caption = this.root.querySelector('[data-lightbox-caption]');
+		this.meta = this.root.querySelector('[data-lightbox-meta]');
+		this.source = this.root.querySelector('[data-lightbox-source]');
+		this.position = this.root.querySelector('[data-lightbox-position]');
+		this.videoControls = this.root.querySelector('[data-lightbox-video]');
+		this.playButton = this.root.querySelector('[data-lightbox-play]');
+		this.scrub = this.root.querySelector('[data-lightbox-scrub]');
+		this.time = this.root.querySelector('[data-lightbox-time]');
+		this.onPlaybackToggle = options.onPlaybackToggle;
+
+		this.listen(this.root.querySelector('[data-lightbox-prev]'), 'click', options.onPrevious);
+		this.listen(this.root.querySelector('[data-lightbox-next]'), 'click', options.onNext);
+		this.listen(this.root.querySelector('[data-lightbox-close]'), 'click', options.onClose);
+		this.listen(this.playButton, 'click', () => this.togglePlayback());
+		this.listen(this.scrub, 'input', () => this.seekFromScrub());
+	}
+
+	/**
+	 * Fill the panel for a centered item; `video` is the element behind its
+	 * VideoTexture, when there is one
+	 */
+	show(item: MemoryMediaItem, index: number, count: number, video: HTMLVideoElement | null = null): void {
+		if (this.caption) this.caption.textContent = item.caption || item.alt || `Memory ${index + 1}`;
+		if (this.position) this.position.textContent = `${index + 1} / ${count}`;
+
+		this.attachVideo(video);
+		this.renderMeta(item);
+		this.renderSource(item);
+		this.root.hidden = false;
+	}
+
+	hide(): void {
+		this.attachVideo(null);
+		this.root.hidden = true;
+	}
+
+	destroy(): void {
+		this.hide();
+		this.cleanups.forEach((cleanup) => cleanup());
+		this.cleanups.length = 0;
+	}
+
+	private listen(target: EventTarget | null, type: string, handler: () => void): void {
+		if (!target) return;
+		target.addEventListener(type, handler);
+		this.cleanups.push(() => target.removeEventListener(type, handler));
+	}
+
+	private renderMeta(item: MemoryMediaItem): void {
+		if (!this.meta) return;
+
+		const width = this.video?.videoWidth || item.width;
+		const height = this.video?.videoHeight || item.height;
+		const parts = [describeMediaType(item.type)];
+		if (width && height) parts.push(`${width} × ${height}`);
+		if (this.video && Number.isFinite(this.video.duration)) parts.push(formatMediaTime(this.video.duration));
+		this.meta.textContent = parts.join(' · ');
+	}
+
+	// Link back to the journey page, for items gathered from several entries
+	private renderSource(item: MemoryMediaItem): void {
+		if (!this.source) return;
+
+		this.source.hidden = !item.source;
+		if (!item.source) return;
+		this.source.href = item.source.href;
+		this.source.textContent = `From ${item.source.title}`;
+	}
+
+	private attachVideo(video: HTMLVideoElement | null): void {
+		const previous = this.video;
+		if (previous) {
+			previous.removeEventListener('timeupdate', this.syncVideoState);
+			previous.removeEventListener('play', this.syncVideoState);
+			previous.removeEventListener('pause', this.syncVideoState);
+			previous.removeEventListener('loadedmetadata', this.syncVideoState);
+		}
+
+		this.video = video;
+		if (this.videoControls) this.videoControls.hidden = video === null;
+		if (!video) return;
+
+		video.addEventListener('timeupdate', this.syncVideoState);
+		video.addEventListener('play', this.syncVideoState);
+		video.addEventListener('pause', this.syncVideoState);
+		video.addEventListener('loadedmetadata', this.syncVideoState);
+		this.syncVideoState();
+	}
+
+	// Arrow property so it can be added and removed as a listener
+	private readonly syncVideoState = (): void => {
+		const video = this.video;
+		if (!video) return;
+
+		const duration = Number.isFinite(video.duration) ? video.duration : 0;
+		if (this.playButton) {
+			this.playButton.textContent = video.paused ? 'Play' : 'Pause';
+		}
+		if (this.scrub) {
+			this.scrub.max = String(SCRUB_STEPS);
+			this.scrub.value = String(duration > 0 ? Math.round((video.currentTime / duration) * SCRUB_STEPS) : 0);
+			this.scrub.disabled = duration === 0;
+		}
+		if (this.time) {
+			this.time.textContent = `${formatMediaTime(video.currentTime)} / ${formatMediaTime(duration)}`;
+		}
+	};
+
+	private togglePlayback(): void {
+		const video = this.video;
+		if (!video) return;
+
+		if (video.paused) {
+			video.play().catch(() => {
+				// Autoplay policy or a detached source: leave the button showing "Play"
+			});
+		} else {
+			video.pause();
+		}
+		this.syncVideoState();
+		this.onPlaybackToggle(video.paused);
+	}
+
+	private seekFromScrub(): void {
+		const video = this.video;
+		if (!video || !this.scrub || !Number.isFinite(video.duration)) return;
+
+		video.currentTime = (Number(this.scrub.value) / SCRUB_STEPS) * video.duration;
+		this.syncVideoState();
+	}
+}
@@ -1,4 +1,5 @@
-import type { CollectionEntry } from 'astro:content';
+import type { MediaInfo } from '../media/manifest';
+import { normalizeEntryMedia, type EntryMediaData } from '../media/normalize';
 
 /**
  * Normalized representation for each memory asset.
@@ -6,6 +7,7 @@ import type { CollectionEntry } from 'astro:content';
  * consume exactly the same manifest later on.
  */
 export interface MemoryMediaItem {
+	id: string; // stable per entry (derived from the file name), used in share links
 	src: string;
 	type: 'image' | 'video' | 'gif';
 	alt?: string;
@@ -15,51 +17,112 @@ export interface MemoryMediaItem {
 	height?: number;
 	hue?: number;
 	colorClass?: string;
+	blurhash?: string; // placeholder until the texture loads (media manifest)
+	preview?: string; // small rendition shown while the orb drifts (media manifest)
+	duration?: number; // seconds, videos only (media manifest)
+	cluster?: number; // constellation group index (see constellation.ts)
+	source?: { href: string; title: string }; // journey page the item belongs to, when shown elsewhere
 }
 
 /**
- * Build a flat manifest of every media attachment that belongs to a journey entry.
- * This central mapping means future renderers do not need to re-implement the merge logic
- * for `media`, `mediaGallery`, and `additionalMedia`.
+ * Orb colours: CSS class plus the hue the WebGL overlay is tinted with
  */
-export function buildMemoryMedia(entry: CollectionEntry<'journey'>): MemoryMediaItem[] {
-	const { data } = entry;
-	const manifest: MemoryMediaItem[] = [];
+export const SPHERE_COLORS = [
+	{ className: 'sphere-pink', hue: 330 },
+	{ className: 'sphere-orange', hue: 25 },
+	{ className: 'sphere-cyan', hue: 180 },
+	{ className: 'sphere-purple', hue: 270 },
+	{ className: 'sphere-green', hue: 120 }
+] as const;
 
-	if (data.media) {
-		const rawSrc = data.media.publicUrl || data.media.src;
-		const finalSrc = typeof rawSrc === 'object' ? rawSrc.src : rawSrc;
-		if (finalSrc) {
-			manifest.push({
-				src: finalSrc,
-				type: (data.media.type as MemoryMediaItem['type']) || 'image',
-				alt: data.media.alt || data.title,
-				caption: data.media.alt || data.title,
-				poster: data.media.poster,
-				width: data.media.width,
-				height: data.media.height
-			});
-		}
-	}
+export type SphereColor = (typeof SPHERE_COLORS)[number];
+
+/**
+ * Sphere colour whose hue is closest (around the colour wheel) to `hue`
+ */
+export function nearestSphereColor(hue: number): SphereColor {
+	const distance = (color: SphereColor) => {
+		const difference = Math.abs(color.hue - hue) % 360;
+		return Math.min(difference, 360 - difference);
+	};
+	return SPHERE_COLORS.reduce((best, color) => (distance(color) < distance(best) ? color : best), SPHERE_COLORS[0]);
+}
 
-	const gallery = data.additionalMedia || data.mediaGallery || [];
+/**
+ * Slug of the file name without extension, e.g. `/media/JN-004 Beach.webp` -> `jn-004-beach`
+ */
+export function mediaIdFromSrc(src: string): string {
+	const fileName = src.split(/[?#]/)[0]?.split('/').pop() ?? '';
+	const slug = fileName
+		.replace(/\.[^.]+$/, '')
+		.toLowerCase()
+		.replace(/[^a-z0-9]+/g, '-')
+		.replace(/^-+|-+$/g, '');
+	return slug || 'memory';
+}
 
-	for (const item of gallery) {
-		const rawSrc = item.publicUrl || item.src;
-		const finalSrc = typeof rawSrc === 'object' ? rawSrc.src : rawSrc;
-		if (finalSrc) {
-			manifest.push({
-				src: finalSrc,
-				type: (item.type as MemoryMediaItem['type']) || 'image',
-				alt: item.alt || data.title,
-				caption: item.caption || item.alt || data.title,
-				poster: item.poster,
-				width: item.width,
-				height: item.height
-			});
+/**
+ * Derive IDs for a manifest in order; repeats of the same file get `-2`, `-3`...
+ */
+export function assignMediaIds<T extends { src: string }>(items: T[]): (T & { id: string })[] {
+	const used = new Set<string>();
+
+	return items.map((item) => {
+		const base = mediaIdFromSrc(item.src);
+		let id = base;
+		for (let n = 2; used.has(id); n++) {
+			id = `${base}-${n}`;
 		}
-	}
+		used.add(id);
+		return { ...item, id };
+	});
+}
+
+/**
+ * Probed facts from the build-time media manifest; they win over hand-written
+ * front matter sizes, while an explicit front matter poster is kept
+ */
+function withMediaInfo<T extends Omit<MemoryMediaItem, 'id'>>(item: T, info: MediaInfo | undefined): T {
+	if (!info) return item;
 
-	return manifest;
+	const probed = {
+		width: info.width,
+		height: info.height,
+		duration: info.duration,
+		hue: info.hue,
+		colorClass: info.colorClass,
+		blurhash: info.blurhash,
+		preview: info.preview,
+		poster: item.poster ?? info.poster
+	};
+	return {
+		...item,
+		...Object.fromEntries(Object.entries(probed).filter(([, value]) => value !== undefined))
+	};
 }
 
+/**
+ * Build a flat manifest of every media attachment that belongs to an entry of any
+ * collection. The merge of `media`, `mediaGallery` and `additionalMedia` lives in
+ * normalizeEntryMedia, shared with the slug pages. `lookupMediaInfo` (see
+ * createMediaLookup) adds what the build-time probe found out about each file.
+ */
+export function buildMemoryMedia(
+	entry: { data: EntryMediaData },
+	lookupMediaInfo: (src: string) => MediaInfo | undefined = () => undefined
+): MemoryMediaItem[] {
+	const { title } = entry.data;
+	// Orbs follow front matter order; `position` only places media on detail pages
+	const manifest = normalizeEntryMedia(entry.data, { frontMatterOrder: true }).map(
+		({ src, type, alt, caption, poster, width, height }): Omit<MemoryMediaItem, 'id'> => ({
+			src,
+			type,
+			alt: alt || title,
+			caption: caption || title,
+			...(poster ? { poster } : {}),
+			...(width && height ? { width, height } : {})
+		})
+	);
+
+	return assignMediaIds(manifest.map((item) => withMediaInfo(item, lookupMediaInfo(item.src))));
+}
@@ -1,3 +1,6 @@
+import { resolveRandom, type RandomSeed, type RandomSource } from './random';
+import { SpatialHash } from './spatialHash';
+
 export interface ViewportSize {
 	width: number;
 	height: number;
@@ -6,9 +9,20 @@ export interface ViewportSize {
 export interface PhysicsConfig {
 	friction: number;
 	brownianStrength: number;
-	boundaryStiffness: number;
-	separationForce: number;
-	separationDistance: number;
+	boundaryStiffness: number; // 0 = hard walls; otherwise fraction of the overshoot pushed back per step
+	separationForce: number; // fraction of an overlap resolved per step (0 disables collisions)
+	separationDistance: number; // extra gap (px) kept between neighbouring orbs
+	clusterSteering: number; // how hard a clustered orb outside its cluster turns back (0 disables)
+}
+
+/**
+ * Where a group of orbs gathers (the constellation view). Fractions of the
+ * viewport, so clusters follow resizes without being reset.
+ */
+export interface ClusterCenter {
+	x: number; // fraction of the viewport width
+	y: number; // fraction of the viewport height
+	radius: number; // fraction of the smaller viewport side
 }
 
 export interface SphereBody {
@@ -39,15 +53,66 @@ export interface SphereBody {
 	releaseStartRadius?: number | undefined;
 	releaseRestX?: number | undefined;
 	releaseRestY?: number | undefined;
+	isGrabbed?: boolean | undefined; // Held by the pointer: moved only by dragBodyTo
+	cluster?: number | undefined; // Index into the cluster centres; drifts freely without one
+}
+
+export interface ThrowVelocity {
+	vx: number; // px per second
+	vy: number;
+}
+
+export interface SphereSystemOptions {
+	getConfig?: (viewport: ViewportSize) => PhysicsConfig;
+	// Injected source of randomness (wins over seed)
+	random?: RandomSource;
+	// Seed for a reproducible simulation; Math.random when omitted
+	seed?: RandomSeed | undefined;
+}
+
+// Physics ticks at a fixed 60 Hz: every per-tick rate in this file (center and
+// release progress, velocity blend, easing) was tuned against 60 fps frames
+export const FIXED_STEP_MS = 1000 / 60;
+// Longest frame we catch up on; time beyond it (a backgrounded tab) is dropped
+const MAX_FRAME_MS = 1000;
+// Absorbs float error so N frames of 1000/fps ms always add up to whole ticks
+const STEP_EPSILON_MS = 1e-6;
+
+// Pointer samples older than this don't count towards the fling velocity
+const THROW_SAMPLE_WINDOW_MS = 100;
+// Fastest fling, in px per tick
+const MAX_THROW_SPEED = 30;
+
+interface DragSample {
+	x: number;
+	y: number;
+	time: number;
 }
 
+type RenderState = Pick<SphereBody, 'x' | 'y' | 'z' | 'radius'>;
+
+// Orbs rest on 10 depth layers, 120px apart, from 0 (front) back to -1080
+const DEPTH_LAYERS = 10;
+const DEPTH_LAYER_SPACING = 120;
+
+/**
+ * Resting z of the orb at `index`; known before the first tick, unlike targetZ
+ */
+export function depthForIndex(index: number): number {
+	return -(index % DEPTH_LAYERS) * DEPTH_LAYER_SPACING;
+}
+
+// Orbs share a depth layer when they rest at the same z (see updateSphere)
+const depthLayer = (body: SphereBody): number => Math.round(body.targetZ);
+
 const defaultPhysicsConfig = (_viewport: ViewportSize): PhysicsConfig => {
 	return {
 		friction: 0.96, // Higher friction for more controlled turns
 		brownianStrength: 0.05, // Reduced random noise (now controls turn rate)
 		boundaryStiffness: 0,
-		separationForce: 0,
-		separationDistance: 0
+		separationForce: 0.15, // Soft: overlaps melt away over a few frames
+		separationDistance: 12,
+		clusterSteering: 0.08
 	};
 };
 
@@ -55,26 +120,46 @@ export class SphereSystem {
 	private bodies: SphereBody[] = [];
 	private viewport: ViewportSize = { width: 0, height: 0 };
 	private readonly getConfig: (viewport: ViewportSize) => PhysicsConfig;
-	private readonly random: () => number;
+	private readonly random: RandomSource;
 	private elapsed = 0;
-
-	constructor(
-		getConfig: (viewport: ViewportSize) => PhysicsConfig = defaultPhysicsConfig,
-		random: () => number = Math.random
-	) {
-		this.getConfig = getConfig;
-		this.random = random;
+	private accumulator = 0;
+	// State before the latest tick, aligned with `bodies`, for render interpolation
+	private previousStates: RenderState[] = [];
+	private dragSamples: DragSample[] = [];
+	private driftEnabled = true;
+	private clusterCenters: ClusterCenter[] = [];
+	private readonly broadphase = new SpatialHash<SphereBody>(1);
+
+	constructor(options: SphereSystemOptions = {}) {
+		this.getConfig = options.getConfig ?? defaultPhysicsConfig;
+		this.random = options.random ?? resolveRandom(options.seed);
 	}
 
 	setBodies(bodies: SphereBody[], viewport: ViewportSize): void {
 		this.bodies = bodies;
 		this.viewport = viewport;
+		this.accumulator = 0;
+		this.capturePreviousStates();
 	}
 
 	updateViewport(viewport: ViewportSize): void {
 		this.viewport = viewport;
 	}
 
+	/**
+	 * Turn ambient drift on or off (off for prefers-reduced-motion)
+	 */
+	setDriftEnabled(enabled: boolean): void {
+		this.driftEnabled = enabled;
+	}
+
+	/**
+	 * Gather bodies with a `cluster` index around these centres
+	 */
+	setClusterCenters(centers: ClusterCenter[]): void {
+		this.clusterCenters = centers;
+	}
+
 	setActiveLimit(_limit: number): void {
 		// Deprecated - no longer used
 	}
@@ -83,7 +168,63 @@ export class SphereSystem {
 		return this.bodies;
 	}
 
-	step(): SphereBody[] {
+	/**
+	 * Advance the simulation by a frame of `dtMs` wall-clock milliseconds, in as
+	 * many fixed ticks as fit; the remainder carries over to the next frame.
+	 * Without `dtMs`, advances exactly one tick.
+	 */
+	step(dtMs?: number): SphereBody[] {
+		if (dtMs === undefined) {
+			this.tick();
+			this.accumulator = 0;
+			return this.bodies;
+		}
+
+		this.accumulator += Math.min(Math.max(dtMs, 0), MAX_FRAME_MS);
+		while (this.accumulator >= FIXED_STEP_MS - STEP_EPSILON_MS) {
+			this.tick();
+			this.accumulator -= FIXED_STEP_MS;
+		}
+
+		return this.bodies;
+	}
+
+	/**
+	 * How far the leftover frame time reaches into the next tick (0..1)
+	 */
+	getInterpolationAlpha(): number {
+		return Math.min(1, Math.max(0, this.accumulator / FIXED_STEP_MS));
+	}
+
+	/**
+	 * Bodies positioned between the last two ticks, for rendering between them.
+	 * Copies: the simulation state itself is never touched.
+	 */
+	getRenderBodies(): SphereBody[] {
+		const alpha = this.getInterpolationAlpha();
+		const lerp = (from: number, to: number) => from + (to - from) * alpha;
+
+		return this.bodies.map((body, index) => {
+			const previous = this.previousStates.at(index) ?? body;
+			return {
+				...body,
+				x: lerp(previous.x, body.x),
+				y: lerp(previous.y, body.y),
+				z: lerp(previous.z, body.z),
+				radius: lerp(previous.radius, body.radius)
+			};
+		});
+	}
+
+	private capturePreviousStates(): void {
+		this.previousStates = this.bodies.map(({ x, y, z, radius }) => ({ x, y, z, radius }));
+	}
+
+	/**
+	 * One fixed physics tick of FIXED_STEP_MS
+	 */
+	private tick(): void {
+		this.capturePreviousStates();
 		this.elapsed++;
 		const config = this.getConfig(this.viewport);
 
@@ -129,6 +270,10 @@ export class SphereSystem {
 					body.vy *= 0.0;
 				}
 
+			} else if (body.isGrabbed) {
+				// Held by the pointer: dragBodyTo places it, physics leaves it alone
+				body.vx = 0;
+				body.vy = 0;
 			} else {
 				// Normal physics for all memory spheres + optional release easing
 				this.updateSphere(body, config, i);
@@ -153,9 +298,8 @@ export class SphereSystem {
 			}
 		}
 
-		// NO collision handling - depth layers prevent visual conflicts
-
-		return this.bodies;
+		// Orbs only collide with orbs in the same depth layer
+		this.separateBodies(config);
 	}
 
 	centerBody(id: number): void {
@@ -163,6 +307,7 @@ export class SphereSystem {
 		if (body) {
 			const prevRadius = body.radius;
 			body.isCentered = true;
+			body.isGrabbed = false;
 			body.centerProgress = 0;
 			body.centerStartX = body.x;
 			body.centerStartY = body.y;
@@ -211,9 +356,8 @@ export class SphereSystem {
 			body.releaseRestY = body.originalY + restOffsetY;
 
 			body.targetRadius = body.originalRadius;
-			// Return to its depth layer (10 layers, 0 to -1200)
-			const depthIndex = body.id % 10;
-			body.targetZ = -depthIndex * 120;
+			// Return to its depth layer
+			body.targetZ = depthForIndex(body.id);
 			body.z = body.targetZ;
 
 			// Reset drift state on release
@@ -225,7 +369,163 @@ export class SphereSystem {
 		}
 	}
 
-	private updateSphere(body: SphereBody, _config: PhysicsConfig, index: number): void {
+	/**
+	 * Take hold of a body with the pointer. Centered bodies can't be grabbed.
+	 */
+	grabBody(id: number): boolean {
+		const body = this.bodies.find((b) => b.id === id);
+		if (!body || body.isCentered) return false;
+
+		body.isGrabbed = true;
+		body.vx = 0;
+		body.vy = 0;
+		// A grab interrupts the ease back from the center
+		body.releaseProgress = undefined;
+		body.releaseStartX = undefined;
+		body.releaseStartY = undefined;
+		body.releaseStartRadius = undefined;
+		body.releaseRestX = undefined;
+		body.releaseRestY = undefined;
+		body.targetRadius = body.originalRadius;
+		this.dragSamples = [];
+		return true;
+	}
+
+	/**
+	 * Move a grabbed body to the pointer, remembering where it was and when
+	 * so throwBody can measure the fling
+	 */
+	dragBodyTo(id: number, x: number, y: number, time: number = performance.now()): void {
+		const body = this.bodies.find((b) => b.id === id);
+		if (!body?.isGrabbed) return;
+
+		body.x = x;
+		body.y = y;
+		this.dragSamples.push({ x, y, time });
+		this.dragSamples = this.dragSamples.filter((sample) => time - sample.time <= THROW_SAMPLE_WINDOW_MS);
+	}
+
+	/**
+	 * Let go of a grabbed body, flinging it with the given velocity (px per
+	 * second) or the one measured from recent drag samples. Drifting physics
+	 * then bleeds the fling off and turns it back into a gentle drift.
+	 */
+	throwBody(id: number, velocity: ThrowVelocity = this.measureDragVelocity()): void {
+		const body = this.bodies.find((b) => b.id === id);
+		if (!body?.isGrabbed) return;
+
+		body.isGrabbed = false;
+		this.dragSamples = [];
+
+		// px per second -> px per tick
+		let vx = (velocity.vx / 1000) * FIXED_STEP_MS;
+		let vy = (velocity.vy / 1000) * FIXED_STEP_MS;
+		const speed = Math.hypot(vx, vy);
+		if (speed > MAX_THROW_SPEED) {
+			vx *= MAX_THROW_SPEED / speed;
+			vy *= MAX_THROW_SPEED / speed;
+		}
+
+		body.vx = vx;
+		body.vy = vy;
+		if (speed > 0) {
+			// Keep drifting the way it was thrown
+			body.driftAngle = Math.atan2(vy, vx);
+		}
+	}
+
+	/**
+	 * Push bodies within `radius` of a point away from it, strongest at the
+	 * point and fading to nothing at the edge. `strength` is the velocity
+	 * (px per tick) added at the point itself.
+	 */
+	applyRadialImpulse(x: number, y: number, radius: number, strength: number): void {
+		if (radius <= 0 || strength === 0) return;
+
+		for (const body of this.bodies) {
+			if (body.isCentered || body.isGrabbed) continue;
+
+			const dx = body.x - x;
+			const dy = body.y - y;
+			const distance = Math.hypot(dx, dy);
+			if (distance >= radius) continue;
+
+			const falloff = 1 - distance / radius;
+			const angle = distance < 1e-6 ? this.random() * Math.PI * 2 : Math.atan2(dy, dx);
+			body.vx += Math.cos(angle) * strength * falloff;
+			body.vy += Math.sin(angle) * strength * falloff;
+		}
+	}
+
+	/**
+	 * Pointer velocity (px per second) over the recent drag samples
+	 */
+	private measureDragVelocity(): ThrowVelocity {
+		const first = this.dragSamples[0];
+		const last = this.dragSamples[this.dragSamples.length - 1];
+		if (!first || !last || last.time <= first.time) {
+			return { vx: 0, vy: 0 };
+		}
+
+		const seconds = (last.time - first.time) / 1000;
+		return { vx: (last.x - first.x) / seconds, vy: (last.y - first.y) / seconds };
+	}
+
+	/**
+	 * Soft separation: push overlapping orbs of the same depth layer apart by a
+	 * fraction of their overlap. Centered orbs neither push nor get pushed;
+	 * a grabbed orb pushes but holds its ground.
+	 */
+	private separateBodies(config: PhysicsConfig): void {
+		if (config.separationForce <= 0 || this.bodies.length < 2) return;
+
+		let maxRadius = 0;
+		for (const body of this.bodies) {
+			if (!body.isCentered) maxRadius = Math.max(maxRadius, body.radius);
+		}
+
+		// Cells as wide as the largest possible contact distance
+		this.broadphase.clear(maxRadius * 2 + config.separationDistance);
+		for (const body of this.bodies) {
+			if (!body.isCentered) this.broadphase.insert(body, depthLayer(body));
+		}
+
+		for (const body of this.bodies) {
+			if (body.isCentered) continue;
+
+			for (const other of this.broadphase.queryNeighbors(body.x, body.y, depthLayer(body))) {
+				// Handle each pair once
+				if (other.id <= body.id) continue;
+
+				const minDistance = body.radius + other.radius + config.separationDistance;
+				const dx = other.x - body.x;
+				const dy = other.y - body.y;
+				const distance = Math.hypot(dx, dy);
+				if (distance >= minDistance) continue;
+
+				let nx: number;
+				let ny: number;
+				if (distance < 1e-6) {
+					// Perfectly stacked: pick a direction so they can part
+					const angle = this.random() * Math.PI * 2;
+					nx = Math.cos(angle);
+					ny = Math.sin(angle);
+				} else {
+					nx = dx / distance;
+					ny = dy / distance;
+				}
+
+				const push = (minDistance - distance) * config.separationForce;
+				const bodyShare = body.isGrabbed ? 0 : other.isGrabbed ? 1 : 0.5;
+				body.x -= nx * push * bodyShare;
+				body.y -= ny * push * bodyShare;
+				other.x += nx * push * (1 - bodyShare);
+				other.y += ny * push * (1 - bodyShare);
+			}
+		}
+	}
+
+	private updateSphere(body: SphereBody, config: PhysicsConfig, index: number): void {
 		// If we're easing back toward drifting state, blend position/scale first
 		if (!body.isCentered && body.releaseProgress !== undefined && body.releaseProgress < 1) {
 			const progress = Math.min(1, (body.releaseProgress ?? 0) + 0.012);
@@ -264,6 +564,16 @@ export class SphereSystem {
 			return;
 		}
 
+		// Assign depth layers for a spacious 3D feel
+		body.targetZ = depthForIndex(index);
+
+		// Reduced motion: orbs hold still; centering, release and dragging still work
+		if (!this.driftEnabled) {
+			body.vx = 0;
+			body.vy = 0;
+			return;
+		}
+
 		// --- SMOOTH DRIFTING PHYSICS ---
 
 		// 1. Initialize drift state if missing (e.g. first frame)
@@ -276,6 +586,7 @@ export class SphereSystem {
 		// Small random perturbation to the angle each frame
 		const turnRate = 0.05; // How fast they can turn (lower = smoother curves)
 		body.driftAngle += (this.random() - 0.5) * turnRate;
+		this.steerTowardCluster(body, config);
 
 		// 3. Calculate velocity vector from angle
 		// This ensures constant speed and smooth direction changes
@@ -299,27 +610,78 @@ export class SphereSystem {
 			const minY = margin;
 			const maxY = this.viewport.height - margin;
 
-			// If hitting wall, gently turn angle away from wall
-			if (body.x < minX) {
-				body.x = minX;
-				body.driftAngle = 0; // Turn right
-			} else if (body.x > maxX) {
-				body.x = maxX;
-				body.driftAngle = Math.PI; // Turn left
-			}
+			if (config.boundaryStiffness > 0) {
+				this.applySoftBoundary(body, { minX, maxX, minY, maxY }, config.boundaryStiffness);
+			} else {
+				// If hitting wall, gently turn angle away from wall
+				if (body.x < minX) {
+					body.x = minX;
+					body.driftAngle = 0; // Turn right
+				} else if (body.x > maxX) {
+					body.x = maxX;
+					body.driftAngle = Math.PI; // Turn left
+				}
 
-			if (body.y < minY) {
-				body.y = minY;
-				body.driftAngle = Math.PI / 2; // Turn down
-			} else if (body.y > maxY) {
-				body.y = maxY;
-				body.driftAngle = -Math.PI / 2; // Turn up
+				if (body.y < minY) {
+					body.y = minY;
+					body.driftAngle = Math.PI / 2; // Turn down
+				} else if (body.y > maxY) {
+					body.y = maxY;
+					body.driftAngle = -Math.PI / 2; // Turn up
+				}
 			}
 		}
+	}
 
-		// Assign depth layers: 10 layers from 0 to -1200 for spacious 3D feel
-		const depthIndex = index % 10;
-		body.targetZ = -depthIndex * 120;
+	/**
+	 * Clustered orbs that wander past their cluster radius turn back toward the
+	 * centre, a little more each tick, so the group keeps drifting as a cloud
+	 */
+	private steerTowardCluster(body: SphereBody, config: PhysicsConfig): void {
+		if (body.cluster === undefined || config.clusterSteering <= 0) return;
+		const center = this.clusterCenters.at(body.cluster);
+		if (!center) return;
+
+		const centerX = center.x * this.viewport.width;
+		const centerY = center.y * this.viewport.height;
+		const radius = center.radius * Math.min(this.viewport.width, this.viewport.height);
+		const dx = centerX - body.x;
+		const dy = centerY - body.y;
+		if (Math.hypot(dx, dy) <= radius) return;
+
+		// Shortest signed turn from the current heading to the centre
+		const turn = Math.atan2(dy, dx) - body.driftAngle;
+		body.driftAngle += Math.atan2(Math.sin(turn), Math.cos(turn)) * config.clusterSteering;
 	}
 
+	/**
+	 * Soft walls: ease a fraction of the overshoot back each step and mirror the
+	 * heading inward, keeping the rest of the drift direction
+	 */
+	private applySoftBoundary(
+		body: SphereBody,
+		bounds: { minX: number; maxX: number; minY: number; maxY: number },
+		stiffness: number
+	): void {
+		let dirX = Math.cos(body.driftAngle);
+		let dirY = Math.sin(body.driftAngle);
+
+		if (body.x < bounds.minX) {
+			body.x += (bounds.minX - body.x) * stiffness;
+			dirX = Math.abs(dirX);
+		} else if (body.x > bounds.maxX) {
+			body.x += (bounds.maxX - body.x) * stiffness;
+			dirX = -Math.abs(dirX);
+		}
+
+		if (body.y < bounds.minY) {
+			body.y += (bounds.minY - body.y) * stiffness;
+			dirY = Math.abs(dirY);
+		} else if (body.y > bounds.maxY) {
+			body.y += (bounds.maxY - body.y) * stiffness;
+			dirY = -Math.abs(dirY);
+		}
+
+		body.driftAngle = Math.atan2(dirY, dirX);
+	}
 }
@@ -0,0 +1,50 @@
+/**
+ * Seedable pseudo-random numbers for the memory spheres.
+ * Drop-in replacement for `Math.random`: the same seed always yields the same
+ * sequence, so a journey page can pin its orb layout and drift, and tests can
+ * replay exact trajectories.
+ */
+
+export type RandomSource = () => number;
+
+export type RandomSeed = number | string;
+
+/**
+ * Hash any seed to a 32-bit unsigned integer (FNV-1a for strings).
+ * Numbers are used as-is so `seed: 42` in front matter stays readable.
+ */
+export function hashSeed(seed: RandomSeed): number {
+	if (typeof seed === 'number') {
+		return Math.floor(seed) >>> 0;
+	}
+
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < seed.length; i++) {
+		hash ^= seed.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return hash >>> 0;
+}
+
+/**
+ * Mulberry32: tiny, fast and well distributed enough for motion noise.
+ * Returns floats in [0, 1), like `Math.random`.
+ */
+export function createRandom(seed: RandomSeed): RandomSource {
+	let state = hashSeed(seed);
+
+	return () => {
+		state = (state + 0x6d2b79f5) >>> 0;
+		let t = state;
+		t = Math.imul(t ^ (t >>> 15), t | 1);
+		t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+		return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+	};
+}
+
+/**
+ * Seeded source when a seed is given, otherwise `Math.random`
+ */
+export function resolveRandom(seed?: RandomSeed | null): RandomSource {
+	return seed === undefined || seed === null || seed === '' ? Math.random : createRandom(seed);
+}
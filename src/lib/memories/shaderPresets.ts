@@ -0,0 +1,237 @@
+/**
+ * Fragment shader presets for the memory orbs.
+ * Every preset shares the uniforms ThreeRenderer drives (map, blur, opacity,
+ * textureAspect, offset, time) and declares its own colours, each exposed to
+ * GLSL as `uniform vec3 <name>Color`. A journey entry picks a preset and may
+ * override its colours through `layoutConfig.orbShader` (validated in
+ * src/content/config.ts).
+ */
+
+export type RGB = [number, number, number]; // 0..1 per channel
+
+export interface ShaderPreset {
+	label: string;
+	colors: Record<string, string>; // default hex colour per uniform name (without the `Color` suffix)
+	fragmentShader: string;
+	animated: boolean; // needs `time` advanced every frame
+}
+
+/**
+ * Front matter shape (`layoutConfig.orbShader`); colour keys depend on the preset
+ */
+export interface OrbShaderConfig {
+	preset?: string | undefined;
+	colors?: Record<string, string> | undefined;
+	overlay?: string | undefined; // glass texture drawn over each orb (image or video)
+}
+
+export interface ResolvedShader {
+	name: ShaderPresetName;
+	fragmentShader: string;
+	colors: Record<string, RGB>;
+	animated: boolean;
+}
+
+// Uniforms and helpers shared by every preset
+const SHADER_HEADER = `
+	uniform sampler2D map;
+	uniform float blur; // 0.0 (Sharp) to 20.0 (Dreamy)
+	uniform float opacity;
+	uniform float textureAspect; // width / height
+	uniform vec2 offset; // manual centering tweaks
+	uniform float time; // seconds, advanced only for animated presets
+	varying vec2 vUv;
+
+	// Aspect ratio correction: cover the orb without stretching the media
+	vec2 mediaUv(vec2 uv) {
+		if (textureAspect > 1.0) {
+			uv.x = (uv.x - 0.5) / textureAspect + 0.5;
+		} else {
+			uv.y = (uv.y - 0.5) * textureAspect + 0.5;
+		}
+		return uv + offset;
+	}
+
+	// Sphere impostor mask: 1 inside, soft fall-off at the rim
+	float edgeMask() {
+		float dist = length(vUv - 0.5) * 2.0; // 0 center -> 1 edge
+		return smoothstep(1.0, 0.95, dist);
+	}
+
+	// 1.0 = Dreamy/Resting state. 0.0 = Focused/Active state.
+	float dreamyFactor() {
+		return clamp(blur / 20.0, 0.0, 1.0);
+	}
+`;
+
+// "Spectral Light": a living light source inside the orb, fading up like a flame.
+// NO BLUR (Performance optimized)
+const spectralShader = `
+	${SHADER_HEADER}
+	uniform vec3 voidColor; // Deepest dark blue
+	uniform vec3 flameColor; // Soft magical light (Pink/Gold tint)
+
+	void main() {
+		float dreamy = dreamyFactor();
+		vec4 texColor = texture2D(map, mediaUv(vUv));
+
+		// Core Glow: strong near the bottom centre, fading radially
+		vec2 lightCenter = vec2(0.5, 0.25);
+		float glow = exp(-distance(vUv, lightCenter) * 3.5);
+		// Vertical Rise: emerging like a flame but not covering the entire orb
+		glow *= smoothstep(0.9, 0.4, vUv.y);
+		// Side containment: keep it somewhat central
+		glow *= mix(0.5, 1.0, smoothstep(0.5, 0.0, abs(vUv.x - 0.5)));
+
+		// Dreamy: faint ghost of the content (15%) over the void, plus the flame
+		vec3 dreamyState = mix(voidColor, texColor.rgb, 0.15);
+		dreamyState += flameColor * glow * 1.2;
+
+		// Focused: just the pure content
+		vec3 finalColor = mix(texColor.rgb, dreamyState, dreamy);
+		gl_FragColor = vec4(finalColor, texColor.a * opacity * edgeMask());
+	}
+`;
+
+// Glass refraction: the media bulges like it sits behind a lens, with a tinted rim
+const glassShader = `
+	${SHADER_HEADER}
+	uniform vec3 tintColor;
+	uniform vec3 rimColor;
+
+	void main() {
+		float dreamy = dreamyFactor();
+		vec2 centered = vUv - 0.5;
+		float dist = length(centered) * 2.0;
+
+		// Pull samples toward the centre, most at the rim; relaxes when focused
+		float bend = 1.0 - 0.3 * (0.35 + 0.65 * dreamy) * dist * dist;
+		vec4 texColor = texture2D(map, mediaUv(vec2(0.5) + centered * bend));
+
+		vec3 color = mix(texColor.rgb, texColor.rgb * tintColor, 0.6 * dreamy);
+		// Fresnel-style highlight hugging the edge
+		color += rimColor * pow(dist, 3.0) * (0.25 + 0.5 * dreamy);
+		gl_FragColor = vec4(color, texColor.a * opacity * edgeMask());
+	}
+`;
+
+// Duotone: luminance mapped from shadow to highlight colour while resting
+const duotoneShader = `
+	${SHADER_HEADER}
+	uniform vec3 shadowColor;
+	uniform vec3 highlightColor;
+
+	void main() {
+		float dreamy = dreamyFactor();
+		vec4 texColor = texture2D(map, mediaUv(vUv));
+
+		float luma = dot(texColor.rgb, vec3(0.299, 0.587, 0.114));
+		vec3 duotone = mix(shadowColor, highlightColor, smoothstep(0.05, 0.95, luma));
+		vec3 finalColor = mix(texColor.rgb, duotone, dreamy);
+		gl_FragColor = vec4(finalColor, texColor.a * opacity * edgeMask());
+	}
+`;
+
+// Film grain: faded, vignetted stock with animated grain that settles when focused
+const filmGrainShader = `
+	${SHADER_HEADER}
+	uniform vec3 fadeColor;
+
+	float grain(vec2 uv) {
+		return fract(sin(dot(uv * 1000.0 + fract(time) * 100.0, vec2(12.9898, 78.233))) * 43758.5453);
+	}
+
+	void main() {
+		float dreamy = dreamyFactor();
+		vec4 texColor = texture2D(map, mediaUv(vUv));
+
+		float luma = dot(texColor.rgb, vec3(0.299, 0.587, 0.114));
+		vec3 faded = mix(vec3(luma), fadeColor, 0.35);
+		vec3 color = mix(texColor.rgb, faded, 0.8 * dreamy);
+		color += (grain(vUv) - 0.5) * (0.04 + 0.12 * dreamy);
+		color *= 1.0 - 0.35 * dreamy * pow(length(vUv - 0.5) * 2.0, 2.0);
+		gl_FragColor = vec4(color, texColor.a * opacity * edgeMask());
+	}
+`;
+
+export const SHADER_PRESETS = {
+	spectral: {
+		label: 'Spectral light',
+		colors: { void: '#00000d', flame: '#ffccf2' },
+		fragmentShader: spectralShader,
+		animated: false
+	},
+	glass: {
+		label: 'Glass refraction',
+		colors: { tint: '#b8d8ff', rim: '#ffffff' },
+		fragmentShader: glassShader,
+		animated: false
+	},
+	duotone: {
+		label: 'Duotone',
+		colors: { shadow: '#1b1040', highlight: '#ffb3d9' },
+		fragmentShader: duotoneShader,
+		animated: false
+	},
+	'film-grain': {
+		label: 'Film grain',
+		colors: { fade: '#d9c4a0' },
+		fragmentShader: filmGrainShader,
+		animated: true
+	}
+} satisfies Record<string, ShaderPreset>;
+
+export type ShaderPresetName = keyof typeof SHADER_PRESETS;
+
+export const DEFAULT_SHADER_PRESET: ShaderPresetName = 'spectral';
+
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+const PRESETS_BY_NAME = new Map<string, ShaderPreset>(Object.entries(SHADER_PRESETS));
+
+function isPresetName(name: string): name is ShaderPresetName {
+	return PRESETS_BY_NAME.has(name);
+}
+
+/**
+ * `#rgb` / `#rrggbb` to 0..1 channels; null when malformed
+ */
+export function hexToRgb(hex: string): RGB | null {
+	if (!HEX_COLOR.test(hex)) return null;
+
+	const digits = hex.length === 4 ? hex.slice(1).replace(/./g, (digit) => digit + digit) : hex.slice(1);
+	const value = parseInt(digits, 16);
+	return [((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255];
+}
+
+/**
+ * Preset plus colour overrides, falling back to the default preset and the
+ * preset's own colours for anything unknown or malformed
+ */
+export function resolveShaderPreset(config: OrbShaderConfig = {}): ResolvedShader {
+	const requested = config.preset ?? DEFAULT_SHADER_PRESET;
+	if (!isPresetName(requested)) {
+		console.warn(`⚠️ Unknown orb shader preset "${requested}", using ${DEFAULT_SHADER_PRESET}`);
+	}
+	const name = isPresetName(requested) ? requested : DEFAULT_SHADER_PRESET;
+	const preset = PRESETS_BY_NAME.get(name) ?? SHADER_PRESETS.spectral;
+
+	const overrides = new Map(Object.entries(config.colors ?? {}));
+	const defaults = new Map(Object.entries(preset.colors));
+	overrides.forEach((_, key) => {
+		if (!defaults.has(key)) console.warn(`⚠️ Orb shader ${name} has no "${key}" colour`);
+	});
+
+	const colors = Object.fromEntries(
+		Array.from(defaults, ([key, fallback]): [string, RGB] => {
+			const override = overrides.get(key);
+			const rgb = override === undefined ? null : hexToRgb(override);
+			if (override !== undefined && !rgb) {
+				console.warn(`⚠️ Invalid ${key} colour "${override}" for orb shader ${name}`);
+			}
+			return [key, rgb ?? hexToRgb(fallback) ?? [0, 0, 0]];
+		})
+	);
+
+	return { name, fragmentShader: preset.fragmentShader, colors, animated: preset.animated };
+}
@@ -0,0 +1,65 @@
+/**
+ * Uniform-grid broadphase for the memory spheres.
+ * Bodies are bucketed by the cell holding their center; with a cell at least as
+ * large as the biggest interaction distance, every pair that can touch shares a
+ * cell or sits in neighbouring cells, so a step checks a handful of candidates
+ * per body instead of all N² pairs.
+ */
+
+export interface HashedPoint {
+	x: number;
+	y: number;
+}
+
+export class SpatialHash<T extends HashedPoint> {
+	private readonly cells = new Map<string, T[]>();
+	private cellSize: number;
+
+	constructor(cellSize: number) {
+		this.cellSize = Math.max(1, cellSize);
+	}
+
+	/**
+	 * Empty the grid, optionally resizing cells (when bodies grow or shrink)
+	 */
+	clear(cellSize: number = this.cellSize): void {
+		this.cells.clear();
+		this.cellSize = Math.max(1, cellSize);
+	}
+
+	insert(item: T, layer = 0): void {
+		const key = this.key(layer, this.cellOf(item.x), this.cellOf(item.y));
+		const cell = this.cells.get(key);
+		if (cell) {
+			cell.push(item);
+		} else {
+			this.cells.set(key, [item]);
+		}
+	}
+
+	/**
+	 * Items of the same layer in the 3×3 block of cells around a point
+	 */
+	queryNeighbors(x: number, y: number, layer = 0): T[] {
+		const cx = this.cellOf(x);
+		const cy = this.cellOf(y);
+		const found: T[] = [];
+
+		for (let dx = -1; dx <= 1; dx++) {
+			for (let dy = -1; dy <= 1; dy++) {
+				const cell = this.cells.get(this.key(layer, cx + dx, cy + dy));
+				if (cell) found.push(...cell);
+			}
+		}
+
+		return found;
+	}
+
+	private cellOf(value: number): number {
+		return Math.floor(value / this.cellSize);
+	}
+
+	private key(layer: number, cx: number, cy: number): string {
+		return `${layer}:${cx}:${cy}`;
+	}
+}
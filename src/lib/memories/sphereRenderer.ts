@@ -0,0 +1,41 @@
+import type { MemoryMediaItem } from './media';
+import type { SphereBody, ViewportSize } from './physics';
+
+/**
+ * Pointer position in container pixels (the physics coordinate space)
+ */
+export interface PointerPoint {
+	x: number;
+	y: number;
+	time: number; // event timestamp (ms)
+}
+
+export interface SphereRendererOptions {
+	container: HTMLElement;
+	onSelect: (index: number) => void;
+	// Pointer pressed on an orb; return false to leave it alone (e.g. the centered orb)
+	onGrab?: (index: number, point: PointerPoint) => boolean;
+	onDrag?: (index: number, point: PointerPoint) => void;
+	onRelease?: (index: number, point: PointerPoint) => void;
+	// Pointer moving over the orbs without holding one; null when it leaves
+	onHover?: (point: PointerPoint | null) => void;
+	// Full-resolution media (image or video) is now showing in this orb
+	onMediaReady?: (index: number) => void;
+}
+
+/**
+ * Contract between memorySpheresClient and whatever draws the orbs:
+ * ThreeRenderer (WebGL) or DomRenderer when WebGL is unavailable
+ */
+export interface SphereRenderer {
+	init(mediaItems: MemoryMediaItem[], bodies: SphereBody[]): Promise<void>;
+	update(bodies: SphereBody[], centerIdx: number | null): void;
+	resize(viewport: ViewportSize): void;
+	destroy(): void;
+	setCenter(index: number): void;
+	clearCenter(index: number): void;
+	// Video element playing inside an orb, for playback controls (null for images)
+	getVideo(id: number): HTMLVideoElement | null;
+	// Pause every playing video while the orbs are off screen; resume afterwards
+	setMediaPaused(paused: boolean): void;
+}
@@ -0,0 +1,218 @@
+/**
+ * Building blocks for streaming orb textures instead of loading them all up front:
+ * a priority queue that caps concurrent loads, and an LRU cache that keeps GPU
+ * memory under a byte budget. Both are renderer-agnostic so they can be tested
+ * without WebGL.
+ */
+
+type LoadTask = () => Promise<void>;
+
+interface QueuedLoad {
+	key: string;
+	priority: number;
+	task: LoadTask;
+}
+
+/**
+ * Runs at most `concurrency` loads at once, highest priority first
+ * (ties keep insertion order). Tasks own their results and errors.
+ */
+export class LoadQueue {
+	private readonly pending: QueuedLoad[] = [];
+	private readonly running = new Set<string>();
+	private readonly concurrency: number;
+	private generation = 0; // bumped by reset(); older tasks settle unseen
+
+	constructor(concurrency = 4) {
+		this.concurrency = Math.max(1, Math.floor(concurrency));
+	}
+
+	get size(): number {
+		return this.pending.length;
+	}
+
+	get activeCount(): number {
+		return this.running.size;
+	}
+
+	/**
+	 * Whether a load with this key is waiting or in flight
+	 */
+	has(key: string): boolean {
+		return this.running.has(key) || this.pending.some((load) => load.key === key);
+	}
+
+	/**
+	 * Queue a load; a key already queued only has its priority raised
+	 */
+	enqueue(key: string, priority: number, task: LoadTask): void {
+		if (this.running.has(key)) return;
+
+		const queued = this.pending.find((load) => load.key === key);
+		if (queued) {
+			queued.priority = Math.max(queued.priority, priority);
+		} else {
+			this.pending.push({ key, priority, task });
+		}
+		this.drain();
+	}
+
+	/**
+	 * Change the priority of a waiting load (no-op once it started)
+	 */
+	prioritize(key: string, priority: number): void {
+		const queued = this.pending.find((load) => load.key === key);
+		if (queued) queued.priority = priority;
+	}
+
+	/**
+	 * Drop a waiting load; returns false if it is unknown or already running
+	 */
+	cancel(key: string): boolean {
+		const index = this.pending.findIndex((load) => load.key === key);
+		if (index < 0) return false;
+		this.pending.splice(index, 1);
+		return true;
+	}
+
+	/**
+	 * Drop every waiting load (in-flight ones finish on their own)
+	 */
+	clear(): void {
+		this.pending.length = 0;
+	}
+
+	/**
+	 * Drop every waiting load and forget the in-flight ones, whose results no
+	 * longer have a home (a lost WebGL context, orbs rebuilt). Their keys can
+	 * be queued again right away; the old tasks finish without freeing a slot.
+	 */
+	reset(): void {
+		this.pending.length = 0;
+		this.running.clear();
+		this.generation++;
+	}
+
+	private drain(): void {
+		while (this.running.size < this.concurrency && this.pending.length > 0) {
+			const next = this.takeHighestPriority();
+			if (!next) return;
+
+			const generation = this.generation;
+			this.running.add(next.key);
+			void next
+				.task()
+				.catch((error: unknown) => {
+					console.warn(`⚠️ Load failed: ${next.key}`, error);
+				})
+				.finally(() => {
+					if (generation !== this.generation) return;
+					this.running.delete(next.key);
+					this.drain();
+				});
+		}
+	}
+
+	private takeHighestPriority(): QueuedLoad | undefined {
+		let best = 0;
+		this.pending.forEach((load, index) => {
+			if (load.priority > (this.pending.at(best)?.priority ?? -Infinity)) best = index;
+		});
+		return this.pending.splice(best, 1)[0];
+	}
+}
+
+interface BudgetEntry<T> {
+	value: T;
+	bytes: number;
+}
+
+/**
+ * Least-recently-used cache with a byte budget. Adding past the budget evicts
+ * the oldest unpinned entries through `onEvict` (which should free GPU memory).
+ * A single pinned entry - the centered orb - may push usage over budget.
+ */
+export class TextureBudget<T> {
+	private readonly entries = new Map<string, BudgetEntry<T>>(); // oldest first
+	private readonly budgetBytes: number;
+	private readonly onEvict: (key: string, value: T) => void;
+	private pinned: string | null = null;
+	private used = 0;
+
+	constructor(budgetBytes: number, onEvict: (key: string, value: T) => void) {
+		this.budgetBytes = Math.max(0, budgetBytes);
+		this.onEvict = onEvict;
+	}
+
+	get usedBytes(): number {
+		return this.used;
+	}
+
+	has(key: string): boolean {
+		return this.entries.has(key);
+	}
+
+	/**
+	 * Read an entry and mark it most recently used
+	 */
+	get(key: string): T | undefined {
+		const entry = this.entries.get(key);
+		if (!entry) return undefined;
+		this.entries.delete(key);
+		this.entries.set(key, entry);
+		return entry.value;
+	}
+
+	set(key: string, value: T, bytes: number): void {
+		this.delete(key);
+		this.entries.set(key, { value, bytes });
+		this.used += bytes;
+		this.evictOverBudget();
+	}
+
+	/**
+	 * Remove an entry without calling `onEvict`
+	 */
+	delete(key: string): boolean {
+		const entry = this.entries.get(key);
+		if (!entry) return false;
+		this.entries.delete(key);
+		this.used -= entry.bytes;
+		return true;
+	}
+
+	/**
+	 * Protect one entry from eviction (null to unpin)
+	 */
+	pin(key: string | null): void {
+		this.pinned = key;
+		this.evictOverBudget();
+	}
+
+	/**
+	 * Evict everything (through `onEvict`)
+	 */
+	clear(): void {
+		this.entries.forEach((entry, key) => this.onEvict(key, entry.value));
+		this.entries.clear();
+		this.used = 0;
+	}
+
+	private evictOverBudget(): void {
+		for (const [key, entry] of this.entries) {
+			if (this.used <= this.budgetBytes) return;
+			if (key === this.pinned) continue;
+			this.entries.delete(key);
+			this.used -= entry.bytes;
+			this.onEvict(key, entry.value);
+		}
+	}
+}
+
+/**
+ * Approximate GPU bytes for an RGBA texture (mipmaps add a third)
+ */
+export function estimateTextureBytes(width: number, height: number, mipmaps = false): number {
+	const base = Math.max(1, width) * Math.max(1, height) * 4;
+	return Math.ceil(mipmaps ? (base * 4) / 3 : base);
+}
@@ -1,12 +1,26 @@
 import * as THREE from 'three';
 import gsap from 'gsap';
+import { decodeBlurhash, isBlurhash } from '../media/blurhash';
 import type { MemoryMediaItem } from './media';
-import type { SphereBody, ViewportSize } from './physics';
+import { depthForIndex, type SphereBody, type ViewportSize } from './physics';
+import { resolveShaderPreset, type OrbShaderConfig, type ResolvedShader } from './shaderPresets';
+import type { PointerPoint, SphereRenderer, SphereRendererOptions } from './sphereRenderer';
+import { LoadQueue, TextureBudget, estimateTextureBytes } from './textureStreaming';
 
-interface ThreeRendererOptions {
-    container: HTMLElement;
+interface ThreeRendererOptions extends SphereRendererOptions {
     overlayTexture: string;
-    onSelect: (index: number) => void;
+    shader?: OrbShaderConfig | undefined; // preset and colour overrides from front matter
+    // Texture streaming: parallel downloads, GPU bytes kept for full-resolution
+    // textures (least recently centered are evicted first), preview width in px
+    maxConcurrentLoads?: number;
+    textureBudgetBytes?: number;
+    previewSize?: number;
+}
+
+interface LoadedTexture {
+    texture: THREE.Texture;
+    aspect: number;
+    video: HTMLVideoElement | null; // element behind a VideoTexture
 }
 
 interface OrbMesh {
@@ -16,6 +30,10 @@ interface OrbMesh {
     bodyId: number;
     focusProgress: number; // 0 to 1
     material: THREE.ShaderMaterial; // Keep ref to update uniforms
+    item: MemoryMediaItem;
+    placeholder: THREE.Texture; // dominant colour, shown until the preview arrives
+    preview: LoadedTexture | null; // small decode used while the orb drifts
+    full: LoadedTexture | null; // full resolution, only while held by the texture budget
 }
 
 // Vertex shader: Standard
@@ -27,85 +45,20 @@ const vertexShader = `
 	}
 `;
 
-// Fragment shader: "Spectral Light" Ethereal Shader
-// Simulates a living light source inside the orb, fading up like a flame.
-// NO BLUR (Performance optimized)
-const fragmentShader = `
-	uniform sampler2D map;
-	uniform float blur; // 0.0 (Sharp) to 20.0 (Dreamy)
-	uniform float opacity;
-	uniform float textureAspect; // width / height
-	uniform vec2 offset; // manual centering tweaks
-	varying vec2 vUv;
-
-	void main() {
-		// 1. Aspect Ratio Correction
-		vec2 uv = vUv;
-		if (textureAspect > 1.0) {
-			uv.x = (uv.x - 0.5) / textureAspect + 0.5;
-		} else {
-			uv.y = (uv.y - 0.5) * textureAspect + 0.5;
-		}
-		uv += offset;
-
-		// 2. Geometry & Mask (Sphere Impostor)
-		float dist = length(vUv - 0.5) * 2.0; // 0 center -> 1 edge
-		float edgeAlpha = smoothstep(1.0, 0.95, dist);
-
-		// 3. State Calculation
-		// Normalize blur (0..20) to 0..1 factor. 
-		// 1.0 = Dreamy/Resting state. 0.0 = Focused/Active state.
-		float dreamyFactor = clamp(blur / 20.0, 0.0, 1.0);
-
-		// 4. Content Sampling (Single Tap - High Performance)
-		vec4 texColor = texture2D(map, uv);
-
-		// 5. "Spectral Flame" Glow Calculation
-		// Center of the light source (bottom center)
-		vec2 lightCenter = vec2(0.5, 0.25); 
-		float distToLight = distance(vUv, lightCenter);
-		
-		// Core Glow: Strong near bottom, fades radially
-		// Optimized exponential falloff
-		float glow = exp(-distToLight * 3.5);
-		
-		// Vertical Rise: Allow glow to rise but fade at the very top
-		// "Emerging like a flame but not covering entire orb"
-		float verticalMask = smoothstep(0.9, 0.4, vUv.y); // Fade out at top
-		glow *= verticalMask;
-		
-		// Side containment: Keep it somewhat central
-		float horizontalMask = smoothstep(0.5, 0.0, abs(vUv.x - 0.5));
-		glow *= mix(0.5, 1.0, horizontalMask);
-
-		// 6. Compositing
-		// Define the Colors
-		vec3 voidColor = vec3(0.0, 0.0, 0.05); // Deepest dark blue
-		vec3 flameColor = vec3(1.0, 0.8, 0.95); // Soft magical light (Pink/Gold tint)
-		
-		// DREAMY STATE:
-		// Background: Dark Void
-		// Content: Faint ghost (15% opacity) - visible but ethereal
-		// Light: Additive flame glow
-		
-		vec3 dreamyState = mix(voidColor, texColor.rgb, 0.15);
-		dreamyState += flameColor * glow * 1.2; // Add intensity
-		
-		// FOCUSED STATE:
-		// Just the pure content
-		vec3 focusedState = texColor.rgb;
-		
-		// Mix based on state
-		vec3 finalColor = mix(focusedState, dreamyState, dreamyFactor);
-
-		gl_FragColor = vec4(finalColor, texColor.a * opacity * edgeAlpha);
-	}
-`;
+// Fragment shaders come from the preset registry (shaderPresets.ts)
 
 const MEDIA_UV_OFFSET = new THREE.Vector2(0.0, 0.0); // UV offset stays neutral; plane offset handles drift
 const MEDIA_PLANE_OFFSET = new THREE.Vector3(-0.02, 0.0, 0.0); // Physical mesh offset for last-mile alignment
 
-export class ThreeRenderer {
+const DEFAULT_MAX_CONCURRENT_LOADS = 4;
+const DEFAULT_TEXTURE_BUDGET_BYTES = 96 * 1024 * 1024;
+const DEFAULT_PREVIEW_SIZE = 256;
+const CENTERED_LOAD_PRIORITY = Number.POSITIVE_INFINITY; // ahead of every preview
+const NO_HUE_PLACEHOLDER = 'rgba(11, 12, 20, 0.85)';
+// Blurhash placeholders are tiny; linear filtering smooths them out on the orb
+const BLURHASH_TEXTURE_SIZE = 32;
+
+export class ThreeRenderer implements SphereRenderer {
     private scene: THREE.Scene;
     private camera: THREE.OrthographicCamera;
     private renderer: THREE.WebGLRenderer;
@@ -113,17 +66,24 @@ export class ThreeRenderer {
     private pointer: THREE.Vector2;
     private pointerDownX: number | null = null; // Track pointer position at mousedown
     private pointerDownY: number | null = null;
+    private grabbedId: number | null = null; // Orb held by the pointer, if any
     private orbs: OrbMesh[] = [];
     private options: ThreeRendererOptions;
     private textureLoader: THREE.TextureLoader;
     private overlayMap: THREE.Texture | null = null;
     private overlayVideo: HTMLVideoElement | null = null;
     private centeredIndex: number | null = null;
-    private mediaTextures: THREE.Texture[] = []; // Track GPU textures so we can dispose when tearing down
-    private activeVideos: HTMLVideoElement[] = []; // Keep refs to autoplaying videos for proper cleanup
+    private loadQueue: LoadQueue;
+    private textureBudget: TextureBudget<LoadedTexture>;
+    private mediaItems: MemoryMediaItem[] = []; // Retained to rebuild orbs after a context loss
+    private bodies: SphereBody[] = [];
+    private contextLost = false;
+    private mediaPaused = false; // page hidden or orbs scrolled away
+    private shader: ResolvedShader;
 
     constructor(options: ThreeRendererOptions) {
         this.options = options;
+        this.shader = resolveShaderPreset(options.shader);
         this.scene = new THREE.Scene();
 
         // Camera setup: orthographic projection keeps motion linear while we simulate depth manually
@@ -141,10 +101,20 @@ export class ThreeRenderer {
         this.raycaster = new THREE.Raycaster();
         this.pointer = new THREE.Vector2();
         this.textureLoader = new THREE.TextureLoader();
+        this.loadQueue = new LoadQueue(options.maxConcurrentLoads ?? DEFAULT_MAX_CONCURRENT_LOADS);
+        this.textureBudget = new TextureBudget(
+            options.textureBudgetBytes ?? DEFAULT_TEXTURE_BUDGET_BYTES,
+            (_key, loaded) => this.evictFullTexture(loaded)
+        );
 
         this.renderer.domElement.addEventListener('pointermove', this.onPointerMove.bind(this));
         this.renderer.domElement.addEventListener('pointerdown', this.onPointerDown.bind(this));
+        this.renderer.domElement.addEventListener('pointerup', this.onPointerUp.bind(this));
+        this.renderer.domElement.addEventListener('pointercancel', this.onPointerUp.bind(this));
+        this.renderer.domElement.addEventListener('pointerleave', this.onPointerLeave.bind(this));
         this.renderer.domElement.addEventListener('click', this.onClick.bind(this));
+        this.renderer.domElement.addEventListener('webglcontextlost', this.onContextLost.bind(this));
+        this.renderer.domElement.addEventListener('webglcontextrestored', this.onContextRestored.bind(this));
     }
 
     async init(mediaItems: MemoryMediaItem[], bodies: SphereBody[]): Promise<void> {
@@ -156,45 +126,42 @@ export class ThreeRenderer {
             console.error('❌ Failed to load overlay texture:', e);
         }
 
+        this.mediaItems = mediaItems;
+        this.bodies = bodies;
+        this.buildOrbs();
+
+        console.log(`✓ Created ${this.orbs.length} orbs, streaming ${this.loadQueue.size + this.loadQueue.activeCount} previews`);
+        this.resize({ width: this.options.container.clientWidth, height: this.options.container.clientHeight });
+    }
+
+    /**
+     * Meshes and materials for every retained media item; textures stream in afterwards
+     */
+    private buildOrbs(): void {
         const geometry = new THREE.PlaneGeometry(1, 1);
         const mediaGeometry = new THREE.PlaneGeometry(1, 1);
 
-        let successCount = 0;
-        let failCount = 0;
-
-        for (let i = 0; i < mediaItems.length; i++) {
-            const item = mediaItems[i];
-            const body = bodies[i];
+        for (let i = 0; i < this.mediaItems.length; i++) {
+            const item = this.mediaItems[i];
+            const body = this.bodies[i];
             if (!body || !item) continue;
 
-            // 1. Media Mesh - ONLY create if texture loads successfully
-            let mediaTexture: THREE.Texture | null = null;
-            let aspect = 1.0;
-
-            try {
-                const result = await this.buildMediaTexture(item);
-                mediaTexture = result.texture;
-                aspect = result.aspect;
-                this.mediaTextures.push(mediaTexture);
-                successCount++;
-            } catch (error) {
-                console.warn(`⚠️ Skipping orb ${i}: Failed to load ${item.src}`);
-                failCount++;
-                continue; // SKIP this orb entirely if texture fails
-            }
-
+            // 1. Media Mesh - starts on its blurhash (or a flat colour), textures stream in afterwards
+            const placeholder = this.createPlaceholderTexture(item);
             const group = new THREE.Group();
 
             const mediaMaterial = new THREE.ShaderMaterial({
                 uniforms: {
-                    map: { value: mediaTexture }, // Guaranteed to be valid texture
+                    map: { value: placeholder },
                     blur: { value: 4.0 },
                     opacity: { value: 0.9 },
-                    textureAspect: { value: aspect },
-                    offset: { value: MEDIA_UV_OFFSET.clone() } // Each mesh keeps its own vec reference
+                    textureAspect: { value: this.itemAspect(item) },
+                    offset: { value: MEDIA_UV_OFFSET.clone() }, // Each mesh keeps its own vec reference
+                    time: { value: 0 },
+                    ...this.createColorUniforms()
                 },
                 vertexShader,
-                fragmentShader,
+                fragmentShader: this.shader.fragmentShader,
                 transparent: true
             });
 
@@ -228,27 +195,35 @@ export class ThreeRenderer {
 
             this.scene.add(group);
 
-            this.orbs.push({
+            const orb: OrbMesh = {
                 group,
                 mediaMesh,
                 overlayMesh,
                 bodyId: body.id,
                 focusProgress: 0,
-                material: mediaMaterial
-            });
-        }
+                material: mediaMaterial,
+                item,
+                placeholder,
+                preview: null,
+                full: null
+            };
+            this.orbs.push(orb);
 
-        console.log(`✓ Created ${successCount} orbs (${failCount} failed)`);
-        this.resize({ width: this.options.container.clientWidth, height: this.options.container.clientHeight });
+            // Front depth layers (higher z, closer to the camera) load first. Bodies
+            // get their targetZ on the first physics tick, so use the layer they will rest on
+            this.loadQueue.enqueue(this.previewKey(body.id), depthForIndex(i), () => this.loadPreview(orb));
+        }
     }
 
     update(bodies: SphereBody[], centerIdx: number | null): void {
         this.centeredIndex = centerIdx;
+        if (this.contextLost) return; // nothing can draw until webglcontextrestored
 
         const viewportWidth = this.options.container.clientWidth;
         const viewportHeight = this.options.container.clientHeight;
         const halfWidth = viewportWidth / 2;
         const halfHeight = viewportHeight / 2;
+        const time = this.shader.animated ? performance.now() / 1000 : 0;
 
         bodies.forEach(body => {
             const orb = this.orbs.find(o => o.bodyId === body.id);
@@ -293,6 +268,10 @@ export class ThreeRenderer {
             if (blurUniform) {
                 blurUniform.value = blurAmount;
             }
+            const timeUniform = uniforms['time'];
+            if (timeUniform) {
+                timeUniform.value = time;
+            }
 
             // Opacity/Dimming
             if (centerIdx !== null && centerIdx !== body.id) {
@@ -317,6 +296,57 @@ export class ThreeRenderer {
         this.renderer.render(this.scene, this.camera);
     }
 
+    /**
+     * Free every orb's GPU resources and drop pending loads. In-flight loads
+     * notice their orb is gone and dispose what they fetched; the queue forgets
+     * them so the rebuilt orbs can load the same keys straight away.
+     */
+    private teardownOrbs(): void {
+        this.loadQueue.reset();
+        this.textureBudget.clear();
+        this.orbs.forEach(orb => {
+            if (orb.preview) this.disposeLoaded(orb.preview);
+            orb.placeholder.dispose();
+            orb.material.dispose();
+            (orb.overlayMesh.material as THREE.Material).dispose();
+            orb.mediaMesh.geometry.dispose();
+            orb.overlayMesh.geometry.dispose();
+            this.scene.remove(orb.group);
+        });
+        this.orbs = [];
+    }
+
+    private onContextLost(event: Event): void {
+        // Without preventDefault the browser never restores the context
+        event.preventDefault();
+        this.contextLost = true;
+        // Loads in flight finish against orbs the restore tears down
+        this.loadQueue.reset();
+        console.warn('⚠️ WebGL context lost; waiting for restore');
+    }
+
+    private onContextRestored(): void {
+        console.log('✓ WebGL context restored, rebuilding orbs');
+        this.contextLost = false;
+        this.teardownOrbs();
+        if (this.overlayMap) {
+            this.overlayMap.needsUpdate = true;
+        }
+        this.buildOrbs();
+
+        // The centered orb needs its full-resolution texture again
+        if (this.centeredIndex !== null) {
+            this.setCenter(this.centeredIndex);
+        }
+    }
+
+    /**
+     * Video element playing inside an orb, for playback controls (null for images)
+     */
+    getVideo(id: number): HTMLVideoElement | null {
+        return this.orbs.find(o => o.bodyId === id)?.full?.video ?? null;
+    }
+
     resize(viewport: ViewportSize): void {
         const halfWidth = viewport.width / 2;
         const halfHeight = viewport.height / 2;
@@ -330,13 +360,9 @@ export class ThreeRenderer {
 
     destroy(): void {
         // Dispose GPU assets and pause HTMLVideoElements so Safari/iOS free resources immediately
-        this.mediaTextures.forEach(texture => texture.dispose());
-        this.mediaTextures = [];
-        this.activeVideos.forEach(video => {
-            video.pause();
-            video.src = '';
-        });
-        this.activeVideos = [];
+        this.teardownOrbs();
+        this.mediaItems = [];
+        this.bodies = [];
         if (this.overlayVideo) {
             this.overlayVideo.pause();
             this.overlayVideo.src = '';
@@ -364,6 +390,195 @@ export class ThreeRenderer {
         return texture;
     }
 
+    /**
+     * Preset colours as `<name>Color` vec3 uniforms (raw 0..1 values, like GLSL literals)
+     */
+    private createColorUniforms(): Record<string, THREE.IUniform> {
+        return Object.fromEntries(
+            Object.entries(this.shader.colors).map(([name, [r, g, b]]) => [
+                `${name}Color`,
+                { value: new THREE.Vector3(r, g, b) }
+            ])
+        );
+    }
+
+    private previewKey(id: number): string {
+        return `preview:${id}`;
+    }
+
+    private fullKey(id: number): string {
+        return `full:${id}`;
+    }
+
+    private itemAspect(item: MemoryMediaItem): number {
+        return item.width && item.height ? item.width / item.height : 1;
+    }
+
+    private placeholderColor(item: MemoryMediaItem): string {
+        return item.hue === undefined ? NO_HUE_PLACEHOLDER : `hsl(${item.hue}, 45%, 22%)`;
+    }
+
+    /**
+     * Best texture an orb has: full resolution, then preview, then its placeholder colour
+     */
+    private applyOrbTexture(orb: OrbMesh): void {
+        const uniforms = orb.material.uniforms as Record<string, THREE.IUniform>;
+        const best = orb.full ?? orb.preview;
+        const mapUniform = uniforms['map'];
+        if (mapUniform) {
+            mapUniform.value = best?.texture ?? orb.placeholder;
+        }
+        const aspectUniform = uniforms['textureAspect'];
+        if (aspectUniform) {
+            aspectUniform.value = best?.aspect ?? this.itemAspect(orb.item);
+        }
+    }
+
+    private async loadPreview(orb: OrbMesh): Promise<void> {
+        // The manifest's small rendition when there is one. Otherwise videos preview
+        // their poster, or keep the colour until centered without one
+        const source = orb.item.preview ?? (this.isVideoItem(orb.item) ? orb.item.poster : orb.item.src);
+        if (!source) return;
+
+        const preview = await this.loadPreviewTexture(source);
+        if (!this.orbs.includes(orb)) {
+            this.disposeLoaded(preview);
+            return;
+        }
+        orb.preview = preview;
+        this.applyOrbTexture(orb);
+    }
+
+    private requestFullTexture(orb: OrbMesh): void {
+        const key = this.fullKey(orb.bodyId);
+        if (orb.full) {
+            this.textureBudget.get(key); // mark as recently used
+            return;
+        }
+        this.loadQueue.enqueue(key, CENTERED_LOAD_PRIORITY, () => this.loadFull(orb));
+    }
+
+    private async loadFull(orb: OrbMesh): Promise<void> {
+        const { texture, aspect } = await this.buildMediaTexture(orb.item);
+        const loaded: LoadedTexture = {
+            texture,
+            aspect,
+            video: texture instanceof THREE.VideoTexture ? (texture.image as HTMLVideoElement) : null
+        };
+        if (!this.orbs.includes(orb)) {
+            this.disposeLoaded(loaded);
+            return;
+        }
+
+        // Released before it arrived (or page hidden meanwhile): keep it paused
+        if (this.centeredIndex !== orb.bodyId || this.mediaPaused) {
+            loaded.video?.pause();
+        }
+        orb.full = loaded;
+        // May evict it right away when it alone exceeds the budget and is no longer centered
+        this.textureBudget.set(this.fullKey(orb.bodyId), loaded, this.textureBytes(texture));
+        this.applyOrbTexture(orb);
+        if (orb.full) {
+            this.options.onMediaReady?.(orb.bodyId);
+        }
+    }
+
+    private evictFullTexture(loaded: LoadedTexture): void {
+        const orb = this.orbs.find(o => o.full === loaded);
+        if (orb) {
+            orb.full = null;
+            this.applyOrbTexture(orb);
+        }
+        this.disposeLoaded(loaded);
+    }
+
+    private textureBytes(texture: THREE.Texture): number {
+        const image = texture.image as
+            | { width?: number; height?: number; videoWidth?: number; videoHeight?: number }
+            | undefined;
+        const width = image?.videoWidth || image?.width || 1;
+        const height = image?.videoHeight || image?.height || 1;
+        return estimateTextureBytes(width, height, texture.generateMipmaps);
+    }
+
+    private disposeLoaded(loaded: LoadedTexture): void {
+        if (loaded.video) {
+            loaded.video.pause();
+            loaded.video.src = '';
+        }
+        const image: unknown = loaded.texture.image;
+        if (typeof ImageBitmap !== 'undefined' && image instanceof ImageBitmap) {
+            image.close();
+        }
+        loaded.texture.dispose();
+    }
+
+    /**
+     * Decode straight to a small bitmap so drifting orbs never hold full-size images
+     */
+    private async loadPreviewTexture(url: string): Promise<LoadedTexture> {
+        if (typeof createImageBitmap !== 'function') {
+            const { texture, aspect } = await this.loadImageTexture(url);
+            return { texture, aspect, video: null };
+        }
+
+        const response = await fetch(url);
+        if (!response.ok) {
+            throw new Error(`Preview failed to load: ${url} (${response.status})`);
+        }
+        const bitmap = await createImageBitmap(await response.blob(), {
+            resizeWidth: this.options.previewSize ?? DEFAULT_PREVIEW_SIZE,
+            resizeQuality: 'medium',
+            imageOrientation: 'flipY' // WebGL ignores texture.flipY for bitmaps
+        });
+
+        const texture = new THREE.Texture(bitmap);
+        texture.flipY = false;
+        texture.minFilter = THREE.LinearFilter;
+        texture.generateMipmaps = false;
+        texture.wrapS = THREE.ClampToEdgeWrapping;
+        texture.wrapT = THREE.ClampToEdgeWrapping;
+        texture.needsUpdate = true;
+        return { texture, aspect: bitmap.width / bitmap.height, video: null };
+    }
+
+    private createPlaceholderTexture(item: MemoryMediaItem): THREE.Texture {
+        if (!item.blurhash || !isBlurhash(item.blurhash)) {
+            return this.createColorTexture(this.placeholderColor(item));
+        }
+
+        const canvas = document.createElement('canvas');
+        canvas.width = BLURHASH_TEXTURE_SIZE;
+        canvas.height = BLURHASH_TEXTURE_SIZE;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return this.createColorTexture(this.placeholderColor(item));
+
+        const pixels = decodeBlurhash(item.blurhash, canvas.width, canvas.height);
+        const imageData = ctx.createImageData(canvas.width, canvas.height);
+        imageData.data.set(pixels);
+        ctx.putImageData(imageData, 0, 0);
+
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.minFilter = THREE.LinearFilter;
+        texture.generateMipmaps = false;
+        texture.needsUpdate = true;
+        return texture;
+    }
+
+    private createColorTexture(color: string): THREE.Texture {
+        const canvas = document.createElement('canvas');
+        canvas.width = 2;
+        canvas.height = 2;
+        const ctx = canvas.getContext('2d');
+        if (ctx) {
+            ctx.fillStyle = color;
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+        }
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.needsUpdate = true;
+        return texture;
+    }
+
     private async buildMediaTexture(item: MemoryMediaItem): Promise<{ texture: THREE.Texture; aspect: number }> {
         // Videos need their own loader path because TextureLoader cannot consume mp4 containers
         if (this.isVideoItem(item)) {
@@ -383,17 +598,7 @@ export class ThreeRenderer {
             return this.loadImageTexture(item.poster);
         }
 
-        const canvas = document.createElement('canvas');
-        canvas.width = 2;
-        canvas.height = 2;
-        const ctx = canvas.getContext('2d');
-        if (ctx) {
-            ctx.fillStyle = 'rgba(11, 12, 20, 0.85)';
-            ctx.fillRect(0, 0, canvas.width, canvas.height);
-        }
-        const texture = new THREE.CanvasTexture(canvas);
-        texture.needsUpdate = true;
-        return { texture, aspect: 1 };
+        return { texture: this.createColorTexture(NO_HUE_PLACEHOLDER), aspect: 1 };
     }
 
     private async loadImageTexture(url: string): Promise<{ texture: THREE.Texture; aspect: number }> {
@@ -448,7 +653,6 @@ export class ThreeRenderer {
                 const width = video.videoWidth || item.width || 1;
                 const height = video.videoHeight || item.height || 1;
 
-                this.activeVideos.push(video);
                 resolve({ texture, aspect: width / height });
             };
 
@@ -537,9 +741,20 @@ export class ThreeRenderer {
         this.pointer.y = -((event.clientY - rect.top) / rect.height) * 2 + 1;
     }
 
+    private getPointerPoint(event: PointerEvent): PointerPoint {
+        const rect = this.renderer.domElement.getBoundingClientRect();
+        return { x: event.clientX - rect.left, y: event.clientY - rect.top, time: event.timeStamp };
+    }
+
     private onPointerMove(event: PointerEvent): void {
         this.updatePointerFromEvent(event);
         gsap.to({}, { duration: 0 });
+
+        if (this.grabbedId !== null) {
+            this.options.onDrag?.(this.grabbedId, this.getPointerPoint(event));
+        } else {
+            this.options.onHover?.(this.getPointerPoint(event));
+        }
     }
 
     private onPointerDown(event: PointerEvent): void {
@@ -547,6 +762,44 @@ export class ThreeRenderer {
         // Store pointer position at mousedown to detect drag vs click
         this.pointerDownX = this.pointer.x;
         this.pointerDownY = this.pointer.y;
+
+        const orb = this.pickOrb();
+        if (orb && this.options.onGrab?.(orb.bodyId, this.getPointerPoint(event))) {
+            this.grabbedId = orb.bodyId;
+            // Keep receiving moves while dragging outside the canvas
+            this.renderer.domElement.setPointerCapture(event.pointerId);
+            this.options.onHover?.(null);
+        }
+    }
+
+    private onPointerUp(event: PointerEvent): void {
+        if (this.grabbedId === null) return;
+
+        const id = this.grabbedId;
+        this.grabbedId = null;
+        if (this.renderer.domElement.hasPointerCapture(event.pointerId)) {
+            this.renderer.domElement.releasePointerCapture(event.pointerId);
+        }
+        this.options.onRelease?.(id, this.getPointerPoint(event));
+    }
+
+    private onPointerLeave(): void {
+        if (this.grabbedId === null) {
+            this.options.onHover?.(null);
+        }
+    }
+
+    /**
+     * Closest orb under the pointer
+     */
+    private pickOrb(): OrbMesh | null {
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+        const meshes: THREE.Object3D[] = [];
+        this.orbs.forEach(orb => meshes.push(orb.overlayMesh));
+
+        // Intersections come sorted by distance
+        const hit = this.raycaster.intersectObjects(meshes)[0]?.object;
+        return hit ? this.orbs.find(o => o.overlayMesh === hit) ?? null : null;
     }
 
     private onClick(event: PointerEvent): void {
@@ -583,13 +836,46 @@ export class ThreeRenderer {
         }
     }
 
+    /**
+     * Center an orb: its full-resolution texture jumps the load queue and is
+     * protected from eviction while centered
+     */
     setCenter(index: number): void {
         this.centeredIndex = index;
+        this.textureBudget.pin(this.fullKey(index));
+
+        const orb = this.orbs.find(o => o.bodyId === index);
+        if (!orb) return;
+        this.requestFullTexture(orb);
+        if (this.mediaPaused) return;
+        orb.full?.video?.play().catch(() => {
+            // Autoplay can still be blocked on some browsers; ignore silently
+        });
+    }
+
+    setMediaPaused(paused: boolean): void {
+        this.mediaPaused = paused;
+        const centered = this.orbs.find(o => o.bodyId === this.centeredIndex)?.full?.video ?? null;
+
+        [this.overlayVideo, centered].forEach(video => {
+            if (!video) return;
+            if (paused) {
+                video.pause();
+            } else {
+                video.play().catch(() => {
+                    // Autoplay can still be blocked on some browsers; ignore silently
+                });
+            }
+        });
     }
 
     clearCenter(index: number): void {
         if (this.centeredIndex === index) {
             this.centeredIndex = null;
+            this.textureBudget.pin(null);
         }
+        // Not needed anymore if it hasn't started downloading
+        this.loadQueue.cancel(this.fullKey(index));
+        this.orbs.find(o => o.bodyId === index)?.full?.video?.pause();
     }
 }
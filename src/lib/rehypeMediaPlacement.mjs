@@ -0,0 +1,212 @@
+import { normalizeEntryMedia } from './media/normalize';
+import { DEFAULT_PUBLIC_DIR, probeMedia } from './media/probe';
+import { usesContentSections } from './rehypeSectionize.mjs';
+
+/**
+ * Build-time media placement: splices an entry's media cards (see
+ * normalizeEntryMedia) into its sectionized markdown, so pages ship finished
+ * HTML instead of moving cards into place in the browser. Runs after
+ * rehypeSectionize. Where a card goes:
+ *
+ * - `insertAfterH2` / `insertBeforeH2`: next to the section with that heading;
+ *   with `insertAfterH2`, `insertAt: inside-top | inside-bottom` puts the card
+ *   inside the section, under the heading or at its end
+ * - `insertAfterH3` / `insertBeforeH3`: next to the section holding that H3
+ * - `position` (or a numeric `insertAt`): after the Nth section, clamped
+ * - otherwise one card after every second section, the rest at the end
+ *
+ * Headings match on trimmed, case-insensitive text. A directive naming a
+ * heading the entry doesn't have throws, but the content loader only logs
+ * that (and caches the failed render), so the slug pages repeat the check with
+ * assertMediaPlacement, which fails the build. Pages in gallery mode lay their
+ * media out themselves and are left alone.
+ *
+ * Files under `publicDir` are probed (probe.ts) for the cards' width/height
+ * and poster fallbacks, the same facts the media manifest gives pages.
+ */
+
+const STAGGER_MS = 150; // animation delay step between consecutive cards
+
+// Probe results per file, shared by every entry rendered in this process
+const probed = new Map();
+
+function probeOnce(src, publicDir) {
+  const key = `${publicDir}:${src}`;
+  if (!probed.has(key)) probed.set(key, probeMedia({ publicUrl: src }, { publicDir }));
+  return probed.get(key);
+}
+
+const normalizeHeading = (text) => (text || '').trim().toLowerCase();
+
+function textContent(node) {
+  if (node.type === 'text') return node.value;
+  return Array.isArray(node.children) ? node.children.map(textContent).join('') : '';
+}
+
+function isSection(node) {
+  return node.type === 'element' && Array.isArray(node.properties?.className) && node.properties.className.includes('content-section');
+}
+
+function findHeadings(node, tagName, found = []) {
+  for (const child of node.children || []) {
+    if (child.type !== 'element') continue;
+    if (child.tagName === tagName) found.push(child);
+    else findHeadings(child, tagName, found);
+  }
+  return found;
+}
+
+function element(tagName, properties, children = []) {
+  // Unset attributes are left out rather than rendered empty
+  const defined = Object.fromEntries(Object.entries(properties).filter(([, value]) => value !== undefined));
+  return { type: 'element', tagName, properties: defined, children };
+}
+
+// Neither site-absolute nor a URL with a scheme (https:, data:...)
+const isLocalPath = (src) => !src.startsWith('/') && !/^[a-z][a-z\d+.-]*:/i.test(src);
+
+/**
+ * One `.media-card`, the same markup the slug pages render in gallery mode
+ */
+export function createMediaCard(item, title, index) {
+  const alt = item.alt || `${title} media ${index + 1}`;
+  const size = { width: item.width, height: item.height };
+  const media = item.type === 'video'
+    ? element('video', { src: item.src, poster: item.poster, className: ['media-video'], controls: true, preload: 'metadata', ...size })
+    : element('img', { src: item.src, alt, className: [item.type === 'gif' ? 'media-gif' : 'media-image'], loading: 'lazy', decoding: 'async', ...size });
+
+  const container = element('div', {
+    className: ['media-container', ...(item.cssClass ? item.cssClass.split(/\s+/) : [])],
+    style: item.type === 'video' && item.aspectRatio ? `aspect-ratio: ${item.aspectRatio};` : undefined
+  }, [media]);
+  const caption = item.caption
+    ? [element('div', { className: ['media-caption'] }, [element('p', {}, [{ type: 'text', value: item.caption }])])]
+    : [];
+
+  return element('div', { className: ['media-card'], dataMediaType: item.type }, [container, ...caption]);
+}
+
+function withDelay(node, delayMs) {
+  return { ...node, properties: { ...node.properties, style: [node.properties.style, `animation-delay: ${delayMs}ms;`].filter(Boolean).join(' ') } };
+}
+
+const HEADING_DIRECTIVES = [
+  ['insertAfterH2', 2],
+  ['insertBeforeH2', 2],
+  ['insertAfterH3', 3],
+  ['insertBeforeH3', 3]
+];
+
+// Front matter whose page places media inline (see rehypeSectionize)
+const placesMediaInline = (data) => usesContentSections(data) && data.layoutConfig?.mediaLayout !== 'gallery';
+
+/**
+ * Directives naming a heading that isn't among `headings` ({ depth, text },
+ * as render() returns them), as messages
+ */
+export function findUnresolvedMediaDirectives(items, headings) {
+  const known = new Set(headings.map(({ depth, text }) => `${depth}:${normalizeHeading(text)}`));
+  return items.flatMap((item) =>
+    HEADING_DIRECTIVES.filter(([directive, depth]) => item[directive] && !known.has(`${depth}:${normalizeHeading(item[directive])}`))
+      .map(([directive]) => `media ${directive} "${item[directive]}" (${item.src}) does not match any heading in the entry`)
+  );
+}
+
+/**
+ * Fail the page (and so the build) when an entry's media directives name
+ * headings its rendered markdown doesn't have
+ */
+export function assertMediaPlacement(entry, headings) {
+  if (!placesMediaInline(entry.data)) return;
+  const problems = findUnresolvedMediaDirectives(normalizeEntryMedia(entry.data), headings);
+  if (problems.length > 0) {
+    throw new Error(`${entry.collection}/${entry.id}: ${problems.join('; ')}`);
+  }
+}
+
+/**
+ * Section index (into `sections`) and slot for each card; throws on headings
+ * the entry doesn't have
+ */
+function resolveSlots(items, sections, source) {
+  // The first section holding each heading text, per depth
+  const headings = sections.flatMap((section, index) => [
+    ...findHeadings(section, 'h2').map((heading) => ({ depth: 2, text: textContent(heading), index })),
+    ...findHeadings(section, 'h3').map((heading) => ({ depth: 3, text: textContent(heading), index }))
+  ]);
+  const problems = findUnresolvedMediaDirectives(items, headings);
+  if (problems.length > 0) throw new Error(`${source}: ${problems.join('; ')}`);
+
+  const lookup = (depth, text) => headings.find((heading) => heading.depth === depth && normalizeHeading(heading.text) === normalizeHeading(text)).index;
+
+  return items.map((item) => {
+    if (item.insertAfterH2) {
+      const index = lookup(2, item.insertAfterH2);
+      if (item.insertAt === 'inside-top') return { index, slot: 'insideTop' };
+      if (item.insertAt === 'inside-bottom') return { index, slot: 'insideBottom' };
+      return { index, slot: 'after' };
+    }
+    if (item.insertAfterH3) return { index: lookup(3, item.insertAfterH3), slot: 'after' };
+    if (item.insertBeforeH2) return { index: lookup(2, item.insertBeforeH2), slot: 'before' };
+    if (item.insertBeforeH3) return { index: lookup(3, item.insertBeforeH3), slot: 'before' };
+
+    const position = item.position ?? (typeof item.insertAt === 'number' ? item.insertAt : undefined);
+    if (position !== undefined && sections.length > 0) {
+      return { index: Math.min(Math.max(position - 1, 0), sections.length - 1), slot: 'after' };
+    }
+    return { index: -1, slot: 'fallback' };
+  });
+}
+
+export default function rehypeMediaPlacement({ publicDir = DEFAULT_PUBLIC_DIR } = {}) {
+  return async (tree, file) => {
+    const frontmatter = file?.data?.astro?.frontmatter;
+    if (!tree || !Array.isArray(tree.children) || !frontmatter) return;
+    if (!placesMediaInline(frontmatter)) return;
+
+    const refs = normalizeEntryMedia(frontmatter);
+    if (refs.length === 0) return;
+    const mediaInfo = new Map(
+      await Promise.all(refs.map(async ({ src }) => [src, src.startsWith('/') ? await probeOnce(src, publicDir) : null]))
+    );
+    const items = normalizeEntryMedia(frontmatter, { lookupMediaInfo: (src) => mediaInfo.get(src) ?? undefined });
+
+    const sections = tree.children.filter(isSection);
+    const slots = resolveSlots(items, sections, file.path || 'markdown');
+    const cards = items.map((item, index) => createMediaCard(item, frontmatter.title, index));
+    const cardsAt = (index, slot) => cards.filter((_, card) => slots.at(card)?.index === index && slots.at(card)?.slot === slot);
+    const fallback = cards.filter((_, card) => slots.at(card)?.slot === 'fallback');
+
+    // Relative image paths (imported images) go through Astro's image pipeline
+    const astro = (file.data.astro ??= {});
+    const localImages = new Set(astro.localImagePaths || []);
+    items.filter((item) => item.type !== 'video' && isLocalPath(item.src)).forEach((item) => localImages.add(item.src));
+    astro.localImagePaths = [...localImages];
+
+    const out = [];
+    let sectionIndex = 0;
+    let fallbackIndex = 0;
+    for (const node of tree.children) {
+      if (!isSection(node)) {
+        out.push(node);
+        continue;
+      }
+      const index = sectionIndex++;
+      const heading = node.children.findIndex((child) => child.type === 'element' && child.tagName === 'h2');
+      const children = [...node.children];
+      children.splice(heading + 1, 0, ...cardsAt(index, 'insideTop'));
+      children.push(...cardsAt(index, 'insideBottom'));
+
+      out.push(...cardsAt(index, 'before').map((card) => withDelay(card, index * STAGGER_MS)));
+      out.push(withDelay({ ...node, children }, index * STAGGER_MS));
+      out.push(...cardsAt(index, 'after').map((card) => withDelay(card, (index + 1) * STAGGER_MS)));
+      if (fallbackIndex < fallback.length && (index + 1) % 2 === 0) {
+        out.push(withDelay(fallback.at(fallbackIndex++), (index + 1) * STAGGER_MS));
+      }
+    }
+    while (fallbackIndex < fallback.length) {
+      out.push(withDelay(fallback.at(fallbackIndex++), (sections.length + fallbackIndex) * STAGGER_MS));
+    }
+    tree.children = out;
+  };
+}
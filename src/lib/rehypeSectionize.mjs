@@ -1,23 +1,134 @@
+/**
+ * Sectionized markdown: every H2 opens a `section.content-section` card and
+ * every H3 inside it a nested `section.content-subsection`, each labelled by
+ * its heading (`aria-labelledby`). Headings get stable slug IDs and an anchor
+ * link, and the resulting outline is handed to the page as
+ * `remarkPluginFrontmatter.toc` (see TableOfContents.astro):
+ *
+ *   [{ id, text, depth: 2, children: [{ id, text, depth: 3, children: [] }] }]
+ *
+ * Blocks before the first H2 keep a card each, as they always have.
+ */
+
+/**
+ * Whether an entry's page renders its markdown as `.content-section` cards.
+ * Journey entries with another layout variant (memory spheres, immersive...)
+ * render their content their own way.
+ */
+export function usesContentSections(frontmatter = {}) {
+  return !frontmatter.layoutVariant || frontmatter.layoutVariant === 'default';
+}
+
+/**
+ * GitHub-style heading slug ("Why It's 2x Faster" -> "why-its-2x-faster"),
+ * the scheme Astro uses for the heading IDs it generates itself
+ */
+export function slugify(text) {
+  return text
+    .trim()
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s_-]/gu, '')
+    .replace(/\s/g, '-');
+}
+
+// Slugs for one document: repeats get -1, -2... like github-slugger. IDs
+// authors set themselves are taken from the start, wherever they appear.
+function createSlugger(reserved = []) {
+  const occurrences = new Map(reserved.map((id) => [id, 0]));
+  return (text) => {
+    const base = slugify(text) || 'section';
+    let slug = base;
+    while (occurrences.has(slug)) {
+      occurrences.set(base, occurrences.get(base) + 1);
+      slug = `${base}-${occurrences.get(base)}`;
+    }
+    occurrences.set(slug, 0);
+    return slug;
+  };
+}
+
+function textContent(node) {
+  if (node.type === 'text') return node.value;
+  return Array.isArray(node.children) ? node.children.map(textContent).join('') : '';
+}
+
+const isHeading = (node, tagName) => node.type === 'element' && node.tagName === tagName;
+
+const authorId = (heading) => (typeof heading.properties?.id === 'string' ? heading.properties.id : null);
+
+const section = (className, children, headingId) => ({
+  type: 'element',
+  tagName: headingId ? 'section' : 'div',
+  properties: headingId ? { className: [className], ariaLabelledBy: headingId } : { className: [className] },
+  children
+});
+
+/**
+ * Give a heading its ID (an author-set one is kept) and an anchor link. The
+ * link has no text of its own (the `#` is CSS), so heading text, and the
+ * headings Astro collects from it, stay as written.
+ */
+function anchorHeading(heading, slug) {
+  const text = textContent(heading).trim();
+  const id = authorId(heading) ?? slug(text);
+  heading.properties = { ...heading.properties, id };
+  heading.children = [
+    ...heading.children,
+    { type: 'element', tagName: 'a', properties: { className: ['heading-anchor'], href: `#${id}`, ariaLabel: `Link to ${text}` }, children: [] }
+  ];
+  return { id, text };
+}
+
 export default function rehypeSectionize() {
-  return (tree) => {
+  return (tree, file) => {
     if (!tree || !Array.isArray(tree.children)) return;
+    const frontmatter = file?.data?.astro?.frontmatter;
+    if (!usesContentSections(frontmatter)) return;
+
+    const slug = createSlugger(
+      tree.children.filter((node) => isHeading(node, 'h2') || isHeading(node, 'h3')).map(authorId).filter(Boolean)
+    );
+    const toc = [];
     const out = [];
-    let current = null;
-    const pushCurrent = () => { if (current) { out.push(current); current = null; } };
+    let current = null; // open H2 section
+    let subsection = null; // open H3 section within it (or on its own before any H2)
+    const closeSubsection = () => {
+      if (subsection && current) current.children.push(subsection);
+      else if (subsection) out.push(subsection);
+      subsection = null;
+    };
+    const closeSection = () => {
+      closeSubsection();
+      if (current) out.push(current);
+      current = null;
+    };
+
     for (const node of tree.children) {
-      if (node.type === 'element' && node.tagName === 'h2') {
-        pushCurrent();
-        current = { type: 'element', tagName: 'div', properties: { className: ['content-section'] }, children: [node] };
-      } else if (current && node.type === 'element' && ['h3','p','ul','ol','pre','blockquote','img','figure','table'].includes(node.tagName)) {
-        current.children.push(node);
+      if (isHeading(node, 'h2')) {
+        closeSection();
+        const { id, text } = anchorHeading(node, slug);
+        current = section('content-section', [node], id);
+        toc.push({ id, text, depth: 2, children: [] });
+      } else if (isHeading(node, 'h3')) {
+        closeSubsection();
+        const { id, text } = anchorHeading(node, slug);
+        // An H3 ahead of any H2 is a card of its own
+        subsection = section(current ? 'content-subsection' : 'content-section', [node], id);
+        const entry = { id, text, depth: 3, children: [] };
+        if (current) toc.at(-1).children.push(entry);
+        else toc.push(entry);
+      } else if (subsection || current) {
+        // Everything up to the next heading belongs to the open section (whitespace included)
+        (subsection || current).children.push(node);
+      } else if (node.type === 'element') {
+        // Blocks before the first heading get a card each
+        out.push(section('content-section', [node]));
       } else {
-        pushCurrent();
         out.push(node);
       }
     }
-    pushCurrent();
+    closeSection();
     tree.children = out;
+    if (frontmatter) frontmatter.toc = toc;
   };
 }
-
-
@@ -0,0 +1,86 @@
+/**
+ * Build-time search index: an inverted index over each entry's title, tags,
+ * description and body, compact enough to ship to the browser as JSON (see
+ * /search/[index].json and GhostSearch). Postings are flat number arrays and
+ * documents carry only what a result needs to render.
+ */
+
+import { markdownToText, tokenize } from './text';
+
+export const SEARCH_INDEX_VERSION = 1;
+
+// Field order is the field index used in postings
+export const SEARCH_FIELDS = ['title', 'tags', 'description', 'body'] as const;
+export type SearchField = (typeof SEARCH_FIELDS)[number];
+
+// Body text kept for snippets; everything is indexed, only this much is shipped
+export const SNIPPET_SOURCE_LENGTH = 4000;
+
+/**
+ * One entry as the builder reads it
+ */
+export interface SearchDocument {
+	url: string;
+	collection: string;
+	title: string;
+	description: string;
+	tags: string[];
+	body: string; // markdown
+}
+
+/**
+ * One entry as results show it
+ */
+export interface SearchIndexDoc {
+	url: string;
+	collection: string;
+	title: string;
+	description: string;
+	tags: string[];
+	text: string; // plain body text, cut at SNIPPET_SOURCE_LENGTH
+}
+
+export interface SearchIndex {
+	version: typeof SEARCH_INDEX_VERSION;
+	docs: SearchIndexDoc[];
+	// term -> [doc, field, count, doc, field, count, ...]
+	terms: Record<string, number[]>;
+}
+
+function cut(text: string, length: number): string {
+	if (text.length <= length) return text;
+	const end = text.lastIndexOf(' ', length);
+	return text.slice(0, end > 0 ? end : length);
+}
+
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+	const docs: SearchIndexDoc[] = [];
+	const postings = new Map<string, number[]>();
+
+	documents.forEach((document, docIndex) => {
+		const body = markdownToText(document.body);
+		// In SEARCH_FIELDS order
+		const fields = [document.title, document.tags.join(' '), document.description, body];
+		fields.forEach((text, fieldIndex) => {
+			const counts = new Map<string, number>();
+			for (const { term } of tokenize(text)) counts.set(term, (counts.get(term) ?? 0) + 1);
+			for (const [term, count] of counts) {
+				const list = postings.get(term) ?? [];
+				list.push(docIndex, fieldIndex, count);
+				postings.set(term, list);
+			}
+		});
+		docs.push({
+			url: document.url,
+			collection: document.collection,
+			title: document.title,
+			description: document.description,
+			tags: document.tags,
+			text: cut(body, SNIPPET_SOURCE_LENGTH)
+		});
+	});
+
+	// Sorted keys keep the JSON stable between builds
+	const terms = Object.fromEntries([...postings].sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0)));
+	return { version: SEARCH_INDEX_VERSION, docs, terms };
+}
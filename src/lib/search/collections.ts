@@ -0,0 +1,56 @@
+/**
+ * The site's search indexes: one per content collection plus one over all of
+ * them, built once per build (or dev server) from published entries.
+ */
+
+// @ts-ignore - provided by Astro at build time
+import { getCollection } from 'astro:content';
+import { buildSearchIndex, type SearchDocument, type SearchIndex } from './build';
+
+export const SEARCH_COLLECTIONS = ['projects', 'journey', 'lab', 'notes'] as const;
+export type SearchCollection = (typeof SEARCH_COLLECTIONS)[number];
+
+// Index names served as /search/<name>.json
+export const SEARCH_INDEX_NAMES = [...SEARCH_COLLECTIONS, 'all'] as const;
+export type SearchIndexName = (typeof SEARCH_INDEX_NAMES)[number];
+
+interface SearchableEntry {
+	collection: string;
+	slug: string;
+	body?: string;
+	data: { title: string; description: string; tags: string[]; draft?: boolean };
+}
+
+let documentsPromise: Promise<SearchDocument[]> | null = null;
+const indexes = new Map<SearchIndexName, SearchIndex>();
+
+function loadDocuments(): Promise<SearchDocument[]> {
+	documentsPromise ??= Promise.all(
+		SEARCH_COLLECTIONS.map((name) =>
+			getCollection(name, ({ data }: SearchableEntry) => data.draft !== true) as Promise<SearchableEntry[]>
+		)
+	).then((collections) =>
+		collections.flat().map((entry) => ({
+			// Same URL the cards link to (MediaCard)
+			url: `/${entry.collection}/${entry.slug}`,
+			collection: entry.collection,
+			title: entry.data.title,
+			description: entry.data.description,
+			tags: entry.data.tags,
+			body: entry.body ?? ''
+		}))
+	);
+	return documentsPromise;
+}
+
+/**
+ * Index over one collection's published entries, or every collection's for `all`
+ */
+export async function getSearchIndex(name: SearchIndexName): Promise<SearchIndex> {
+	const cached = indexes.get(name);
+	if (cached) return cached;
+	const documents = await loadDocuments();
+	const index = buildSearchIndex(name === 'all' ? documents : documents.filter((document) => document.collection === name));
+	indexes.set(name, index);
+	return index;
+}
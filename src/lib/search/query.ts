@@ -0,0 +1,216 @@
+/**
+ * Querying a search index (build.ts) in the browser. Every query word has to
+ * match somewhere in an entry, as a whole word, as the start of one (the word
+ * being typed) or within a typo or two; entries are ranked by where and how
+ * well their words matched. Stop words aren't indexed, so they only count as
+ * the start of the word being typed ("an" for "animation"). Results carry highlight ranges for the title and
+ * a snippet rather than markup, so callers build the DOM themselves.
+ */
+
+import { SEARCH_FIELDS, type SearchIndex, type SearchIndexDoc } from './build';
+import { isStopWord, tokenize } from './text';
+
+// How much a match counts per field, in SEARCH_FIELDS order
+const FIELD_WEIGHTS = [6, 4, 2, 1] as const;
+
+const EXACT = 1;
+const PREFIX = 0.7;
+const TYPO = [1, 0.45, 0.25] as const; // by edit distance
+
+const MIN_PREFIX_LENGTH = 2; // the word being typed matches as a prefix from one letter
+const SNIPPET_LENGTH = 160;
+const SNIPPET_LEAD = 40; // context kept before the first match
+
+export type HighlightRange = [start: number, end: number];
+
+export interface HighlightedText {
+	text: string;
+	highlights: HighlightRange[];
+}
+
+export interface SearchResult {
+	doc: SearchIndexDoc;
+	score: number;
+	terms: string[]; // index terms that matched, for highlighting elsewhere
+	title: HighlightedText;
+	snippet: HighlightedText;
+}
+
+export interface QueryWord {
+	term: string;
+	typing: boolean; // last word, nothing typed after it yet
+	required: boolean; // entries must match it; a stop word being typed only adds to the score
+}
+
+export interface SearchOptions {
+	limit?: number;
+	collection?: string; // only entries of this collection
+}
+
+/**
+ * Typos tolerated in a query word of this length
+ */
+export function allowedEdits(length: number): number {
+	if (length >= 8) return 2;
+	if (length >= 4) return 1;
+	return 0;
+}
+
+/**
+ * Damerau-Levenshtein distance (adjacent swaps count once), or `max + 1` as
+ * soon as it is certain to exceed `max`
+ */
+export function editDistance(a: string, b: string, max: number): number {
+	if (Math.abs(a.length - b.length) > max) return max + 1;
+	let previousRow: number[] = [];
+	let row = Array.from({ length: b.length + 1 }, (_, j) => j);
+	for (let i = 1; i <= a.length; i++) {
+		const next = [i];
+		let rowMin = i;
+		for (let j = 1; j <= b.length; j++) {
+			const cost = a.charAt(i - 1) === b.charAt(j - 1) ? 0 : 1;
+			let value = Math.min((row.at(j) ?? 0) + 1, (next.at(j - 1) ?? 0) + 1, (row.at(j - 1) ?? 0) + cost);
+			if (i > 1 && j > 1 && a.charAt(i - 1) === b.charAt(j - 2) && a.charAt(i - 2) === b.charAt(j - 1)) {
+				value = Math.min(value, (previousRow.at(j - 2) ?? 0) + 1);
+			}
+			next.push(value);
+			rowMin = Math.min(rowMin, value);
+		}
+		if (rowMin > max) return max + 1;
+		previousRow = row;
+		row = next;
+	}
+	return row.at(b.length) ?? max + 1;
+}
+
+/**
+ * The words of a query that get looked up. Stop words are dropped unless
+ * they are the word being typed, which is then optional.
+ */
+export function parseQuery(query: string): QueryWord[] {
+	const tokens = tokenize(query, { keepStopWords: true });
+	const last = tokens.at(-1);
+	const words = new Map<string, QueryWord>();
+	for (const token of tokens) {
+		const typing = token === last && token.end === query.length;
+		const stopWord = isStopWord(token.term);
+		if (stopWord && !typing) continue;
+		const word = words.get(token.term);
+		words.set(token.term, {
+			term: token.term,
+			typing: typing || (word?.typing ?? false),
+			required: !stopWord || (word?.required ?? false)
+		});
+	}
+	return [...words.values()];
+}
+
+/**
+ * Whether the index can answer `query`: some word of it has to match. Queries
+ * of stop words alone can't be told apart from every entry.
+ */
+export function isSearchable(query: string): boolean {
+	return parseQuery(query).some((word) => word.required);
+}
+
+/**
+ * Index terms a query word stands for, with how well each matches
+ */
+function expandWord({ term: word, typing }: QueryWord, vocabulary: string[]): Map<string, number> {
+	const matches = new Map<string, number>();
+	const edits = allowedEdits(word.length);
+	for (const term of vocabulary) {
+		if (term === word) matches.set(term, EXACT);
+		else if ((typing || word.length >= MIN_PREFIX_LENGTH) && term.startsWith(word)) matches.set(term, PREFIX);
+		else if (edits > 0) {
+			const distance = editDistance(word, term, edits);
+			// A longer term can still be a mistyped start of the word being typed
+			const prefixDistance = term.length > word.length ? editDistance(word, term.slice(0, word.length), edits) : edits + 1;
+			if (distance <= edits) matches.set(term, TYPO.at(distance) ?? 0);
+			else if (prefixDistance <= edits) matches.set(term, (TYPO.at(prefixDistance) ?? 0) * PREFIX);
+		}
+	}
+	return matches;
+}
+
+function highlight(text: string, terms: Set<string>): HighlightRange[] {
+	return tokenize(text, { keepStopWords: true })
+		.filter((token) => terms.has(token.term))
+		.map((token): HighlightRange => [token.start, token.end]);
+}
+
+/**
+ * A window of the entry's description and body around its first match
+ */
+function snippetFor(doc: SearchIndexDoc, terms: Set<string>): HighlightedText {
+	const source = [doc.description, doc.text].filter(Boolean).join(' — ');
+	const first = highlight(source, terms)[0];
+	let start = first ? Math.max(0, first[0] - SNIPPET_LEAD) : 0;
+	if (start > 0) {
+		const space = source.indexOf(' ', start);
+		start = space >= 0 && space < (first?.[0] ?? 0) ? space + 1 : start;
+	}
+	let end = Math.min(source.length, start + SNIPPET_LENGTH);
+	if (end < source.length) {
+		const space = source.lastIndexOf(' ', end);
+		end = space > start ? space : end;
+	}
+
+	const lead = start > 0 ? '…' : '';
+	const text = `${lead}${source.slice(start, end)}${end < source.length ? '…' : ''}`;
+	const highlights = highlight(source.slice(start, end), terms).map(
+		([from, to]): HighlightRange => [from + lead.length, to + lead.length]
+	);
+	return { text, highlights };
+}
+
+/**
+ * Query function over `index`; the sorted vocabulary is worked out once
+ */
+export function createSearcher(index: SearchIndex): (query: string, options?: SearchOptions) => SearchResult[] {
+	const postingsByTerm = new Map(Object.entries(index.terms));
+	const vocabulary = [...postingsByTerm.keys()];
+	const docFrequency = new Map(
+		[...postingsByTerm].map(([term, postings]) => [term, new Set(postings.filter((_, i) => i % 3 === 0)).size])
+	);
+	const idf = (term: string) => Math.log(1 + index.docs.length / (docFrequency.get(term) ?? 1));
+
+	return (query, { limit = 10, collection } = {}) => {
+		const words = parseQuery(query);
+		if (words.length === 0) return [];
+		const required = words.filter((word) => word.required).length;
+
+		// Per document: score so far, words matched, terms matched
+		const found = new Map<number, { score: number; words: Set<string>; terms: Set<string> }>();
+		for (const word of words) {
+			for (const [term, quality] of expandWord(word, vocabulary)) {
+				const postings = postingsByTerm.get(term) ?? [];
+				for (let i = 0; i < postings.length; i += 3) {
+					const docIndex = postings.at(i) ?? 0;
+					const weight = FIELD_WEIGHTS.at(postings.at(i + 1) ?? SEARCH_FIELDS.length - 1) ?? 1;
+					const count = postings.at(i + 2) ?? 1;
+					const entry = found.get(docIndex) ?? { score: 0, words: new Set<string>(), terms: new Set<string>() };
+					entry.score += weight * quality * idf(term) * (1 + Math.log(count));
+					if (word.required) entry.words.add(word.term);
+					entry.terms.add(term);
+					found.set(docIndex, entry);
+				}
+			}
+		}
+
+		const results: SearchResult[] = [];
+		for (const [docIndex, { score, words: matchedWords, terms }] of found) {
+			const doc = index.docs.at(docIndex);
+			if (!doc || matchedWords.size < required) continue;
+			if (collection && doc.collection !== collection) continue;
+			results.push({
+				doc,
+				score,
+				terms: [...terms],
+				title: { text: doc.title, highlights: highlight(doc.title, terms) },
+				snippet: snippetFor(doc, terms)
+			});
+		}
+		return results.sort((a, b) => b.score - a.score).slice(0, limit);
+	};
+}
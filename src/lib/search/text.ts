@@ -0,0 +1,75 @@
+/**
+ * Text handling shared by the search index builder and the browser: markdown
+ * flattened to plain text, and a tokenizer that keeps each word's offsets so
+ * matches can be highlighted in the original text.
+ */
+
+export interface Token {
+	term: string; // normalized: lowercase, accents stripped
+	start: number; // offsets into the tokenized text
+	end: number;
+}
+
+// Too common to be worth a posting list
+const STOP_WORDS = new Set([
+	'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'i', 'in', 'is', 'it',
+	'its', 'my', 'of', 'on', 'or', 'so', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'with'
+]);
+
+// Letters and digits, apostrophes included so "maker's" stays one word
+const WORD = /[\p{L}\p{N}'’]+/gu;
+const EDGE_QUOTES = /^['’]+|['’]+$/g;
+
+/**
+ * Lowercase, accent-free form of a word ("Café's" -> "cafes")
+ */
+export function normalizeTerm(word: string): string {
+	return word
+		.normalize('NFKD')
+		.replace(/[\u0300-\u036f'’]/g, '')
+		.toLowerCase();
+}
+
+/**
+ * Whether a normalized term is too common to be indexed
+ */
+export function isStopWord(term: string): boolean {
+	return STOP_WORDS.has(term);
+}
+
+/**
+ * Words of `text` with their offsets; stop words are dropped unless asked for
+ */
+export function tokenize(text: string, { keepStopWords = false }: { keepStopWords?: boolean } = {}): Token[] {
+	const tokens: Token[] = [];
+	for (const match of text.matchAll(WORD)) {
+		// Quotes around a word aren't part of it
+		const word = match[0].replace(EDGE_QUOTES, '');
+		const term = normalizeTerm(word);
+		if (!term || (!keepStopWords && isStopWord(term))) continue;
+		const start = match.index + match[0].indexOf(word);
+		tokens.push({ term, start, end: start + word.length });
+	}
+	return tokens;
+}
+
+/**
+ * Readable text of a markdown body: markup, link targets, images and HTML
+ * tags removed, code kept as plain words
+ */
+export function markdownToText(markdown: string): string {
+	return markdown
+		.replace(/^(`{3,}|~{3,}).*$/gm, '') // code fence lines, keeping the code
+		.replace(/<!--[\s\S]*?-->/g, ' ')
+		.replace(/<[^>]+>/g, ' ')
+		.replace(/!\[[^\]]*\]\([^)]*\)/g, ' ')
+		.replace(/\[([^\]]*)\]\([^)]*\)/g, '$1')
+		.replace(/\[([^\]]*)\]\[[^\]]*\]/g, '$1')
+		.replace(/^\s*\[[^\]]+\]:\s*\S+.*$/gm, '') // reference definitions
+		.replace(/^\s{0,3}(#{1,6}|>+|[-*+]|\d+[.)])\s+/gm, '')
+		.replace(/^[ \t]*[-*_][-*_ \t]*$/gm, '') // rules
+		.replace(/[*~`]+/g, '') // emphasis and code marks sit inside words' spacing
+		.replace(/[_|]+/g, ' ')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
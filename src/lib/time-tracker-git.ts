@@ -0,0 +1,145 @@
+/**
+ * Time Tracker Git - Reads branch, HEAD and recent commits straight from .git
+ *
+ * No git binary or network access: HEAD and refs are plain files, packed refs
+ * are a text list, and the HEAD reflog (logs/HEAD) records every commit made
+ * in the working copy with its timestamp. Worktrees (where .git is a file
+ * pointing at the real git dir) are supported.
+ */
+
+import { existsSync } from 'fs';
+import { readFile, stat } from 'fs/promises';
+import { join, resolve } from 'path';
+
+export interface GitHead {
+  branch: string | null; // null when HEAD is detached
+  commit: string | null; // null in a repository without commits
+}
+
+export interface GitCommit {
+  sha: string;
+  message: string;
+  at: string; // ISO timestamp from the reflog
+}
+
+const SHA_PATTERN = /^[0-9a-f]{40}$/;
+
+/**
+ * Locate the git directory for a working copy (null when not a repository)
+ */
+export async function resolveGitDir(projectRoot: string): Promise<string | null> {
+  const dotGit = join(projectRoot, '.git');
+  if (!existsSync(dotGit)) {
+    return null;
+  }
+
+  if ((await stat(dotGit)).isDirectory()) {
+    return dotGit;
+  }
+
+  // Worktrees and submodules: .git is a file containing "gitdir: <path>"
+  const match = /^gitdir:\s*(.+)$/m.exec(await readFile(dotGit, 'utf-8'));
+  return match?.[1] ? resolve(projectRoot, match[1].trim()) : null;
+}
+
+/**
+ * Directory holding shared refs (differs from the git dir inside worktrees)
+ */
+async function resolveCommonDir(gitDir: string): Promise<string> {
+  const commonDirFile = join(gitDir, 'commondir');
+  if (!existsSync(commonDirFile)) {
+    return gitDir;
+  }
+  return resolve(gitDir, (await readFile(commonDirFile, 'utf-8')).trim());
+}
+
+/**
+ * Resolve a ref such as refs/heads/main from loose refs or packed-refs
+ */
+async function resolveRef(gitDir: string, ref: string): Promise<string | null> {
+  for (const dir of [gitDir, await resolveCommonDir(gitDir)]) {
+    const looseRef = join(dir, ref);
+    if (existsSync(looseRef)) {
+      const sha = (await readFile(looseRef, 'utf-8')).trim();
+      return SHA_PATTERN.test(sha) ? sha : null;
+    }
+
+    const packedRefs = join(dir, 'packed-refs');
+    if (existsSync(packedRefs)) {
+      for (const line of (await readFile(packedRefs, 'utf-8')).split('\n')) {
+        const [sha, name] = line.trim().split(' ');
+        if (name === ref && sha && SHA_PATTERN.test(sha)) {
+          return sha;
+        }
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Read the checked-out branch and the commit HEAD points at
+ */
+export async function readGitHead(gitDir: string): Promise<GitHead> {
+  const head = (await readFile(join(gitDir, 'HEAD'), 'utf-8')).trim();
+
+  if (head.startsWith('ref: ')) {
+    const ref = head.slice('ref: '.length);
+    return {
+      branch: ref.replace(/^refs\/heads\//, ''),
+      commit: await resolveRef(gitDir, ref),
+    };
+  }
+
+  return { branch: null, commit: SHA_PATTERN.test(head) ? head : null };
+}
+
+/**
+ * Commits created in this working copy between two moments, oldest first.
+ * Reflog lines look like:
+ * <old sha> <new sha> Name <email> <unix seconds> <tz offset>\t<action>: <message>
+ */
+export async function readCommitsBetween(gitDir: string, from: Date, to: Date): Promise<GitCommit[]> {
+  const reflog = join(gitDir, 'logs', 'HEAD');
+  if (!existsSync(reflog)) {
+    return [];
+  }
+
+  // Reflog timestamps have second precision
+  const fromSeconds = Math.floor(from.getTime() / 1000);
+  const toSeconds = Math.ceil(to.getTime() / 1000);
+  const commits: GitCommit[] = [];
+  for (const line of (await readFile(reflog, 'utf-8')).split('\n')) {
+    const match = /^[0-9a-f]{40} ([0-9a-f]{40}) .*> (\d+) [+-]\d{4}\t([^:]+): (.*)$/.exec(line);
+    if (!match) {
+      continue;
+    }
+
+    const [, sha = '', seconds = '0', action = '', message = ''] = match;
+    const at = Number(seconds);
+    // "commit", "commit (amend)", "commit (merge)", "commit (initial)"
+    if (action.startsWith('commit') && at >= fromSeconds && at <= toSeconds) {
+      commits.push({ sha, message, at: new Date(at * 1000).toISOString() });
+    }
+  }
+
+  return commits;
+}
+
+/**
+ * Short form of a commit SHA for display
+ */
+export function shortSha(sha: string | null): string {
+  return sha ? sha.slice(0, 7) : '(none)';
+}
+
+/**
+ * Label for the span of history a session covers (start..end, or a single commit)
+ */
+export function formatCommitRange(startCommit: string | null, endCommit: string | null): string {
+  if (startCommit === endCommit) {
+    return shortSha(startCommit);
+  }
+  return `${shortSha(startCommit)}..${shortSha(endCommit)}`;
+}
@@ -0,0 +1,198 @@
+/**
+ * Time Tracker Projects - Aggregates every tracker data directory on this machine
+ *
+ * Each project's tracker writes to its own ~/.time-tracker-<name>/data.json.
+ * This module discovers those directories and reads them side by side, without
+ * writing anything: legacy sessions are migrated in memory, sessions still only
+ * in the journal are replayed, corrupt files are
+ * reported instead of repaired (`time-tracker recover` does that per project),
+ * and the open session of a running tracker is included.
+ *
+ * Node-only (reads the home directory); used by the dev dashboard page.
+ */
+
+import { existsSync } from 'fs';
+import { readdir, readFile } from 'fs/promises';
+import { homedir } from 'os';
+import { join } from 'path';
+import {
+  CURRENT_SCHEMA_VERSION,
+  JOURNAL_FILE,
+  TRACKER_DIR_PREFIX,
+  isProcessAlive,
+  migrateTrackingData,
+  parseStoredData,
+  replayJournal,
+  type LiveSessionSnapshot,
+  type TrackingData,
+  type TrackingSession,
+} from './time-tracker';
+import { dayKey, filterSessions, shiftDay, sumByHourOfDay, sumByWeek, weekKey } from './time-tracker-report';
+
+export interface TrackedProject {
+  name: string; // directory name without the prefix, i.e. the project folder name
+  dataDir: string;
+  data: TrackingData | null; // null when the data file could not be read
+  currentSession: TrackingSession | null; // open session of a running tracker
+  error: string | null;
+}
+
+export interface ProjectTotals {
+  name: string;
+  totalSeconds: number;
+  sessionCount: number;
+  lastTracked: string | null;
+  running: boolean;
+  error: string | null;
+}
+
+export interface WeeklyProjectTotals {
+  week: string; // day key of the Monday
+  seconds: Record<string, number>; // per project name
+}
+
+export interface ProjectsOverview {
+  projects: ProjectTotals[]; // most tracked first
+  weeks: WeeklyProjectTotals[]; // oldest first, empty weeks included
+  hourOfDay: number[]; // seconds per hour 0-23 within the charted weeks, all projects combined
+  totalSeconds: number;
+}
+
+export interface OverviewOptions {
+  weeks?: number | undefined; // number of weeks charted, ending this week (default: 12)
+  timeZone?: string | undefined;
+  now?: Date | undefined;
+}
+
+/**
+ * Tracker data directories under the home directory, sorted by name
+ */
+export async function discoverTrackerDirs(home: string = homedir()): Promise<string[]> {
+  const entries = await readdir(home, { withFileTypes: true });
+
+  return entries
+    .filter((entry) => entry.isDirectory() && entry.name.startsWith(TRACKER_DIR_PREFIX))
+    .filter((entry) => existsSync(join(home, entry.name, 'data.json')))
+    .map((entry) => join(home, entry.name))
+    .sort();
+}
+
+/**
+ * Read one tracker data directory; failures end up in `error` instead of throwing
+ */
+export async function readTrackedProject(dataDir: string): Promise<TrackedProject> {
+  const dirName = dataDir.split(/[\\/]/).pop() ?? dataDir;
+  const project: TrackedProject = {
+    name: dirName.slice(TRACKER_DIR_PREFIX.length),
+    dataDir,
+    data: null,
+    currentSession: null,
+    error: null,
+  };
+
+  try {
+    const stored = parseStoredData(await readFile(join(dataDir, 'data.json'), 'utf-8'));
+    const version = stored.schemaVersion ?? 1;
+    if (version > CURRENT_SCHEMA_VERSION) {
+      throw new Error(`schema v${version} is newer than this tracker (v${CURRENT_SCHEMA_VERSION})`);
+    }
+    project.data = migrateTrackingData(stored).data;
+
+    const journalPath = join(dataDir, JOURNAL_FILE);
+    if (existsSync(journalPath)) {
+      project.data = replayJournal(project.data, await readFile(journalPath, 'utf-8'));
+    }
+  } catch (error) {
+    project.error = error instanceof Error ? error.message : String(error);
+  }
+
+  try {
+    const snapshot = JSON.parse(
+      await readFile(join(dataDir, 'session.json'), 'utf-8')
+    ) as LiveSessionSnapshot;
+    if (isProcessAlive(snapshot.pid)) {
+      project.currentSession = snapshot.session;
+    }
+  } catch {
+    // No running tracker (or a half-written snapshot): nothing to add
+  }
+
+  return project;
+}
+
+/**
+ * Read every tracker data directory found under the home directory
+ */
+export async function loadTrackedProjects(home: string = homedir()): Promise<TrackedProject[]> {
+  const dirs = await discoverTrackerDirs(home);
+  return Promise.all(dirs.map((dir) => readTrackedProject(dir)));
+}
+
+/**
+ * Recorded sessions of a project plus its open session, if any
+ */
+export function projectSessions(project: TrackedProject): TrackingSession[] {
+  const sessions = project.data?.sessions ?? [];
+  return project.currentSession ? [...sessions, project.currentSession] : sessions;
+}
+
+/**
+ * Time of the last activity credited to an open session
+ */
+function lastActivity(session: TrackingSession): string {
+  return new Date(Date.parse(session.startTime) + session.wallSeconds * 1000).toISOString();
+}
+
+/**
+ * Totals per project (all time), and per week (stacked by project) and per
+ * hour of the day over the charted weeks
+ */
+export function summarizeProjects(
+  projects: TrackedProject[],
+  options: OverviewOptions = {}
+): ProjectsOverview {
+  const weekCount = options.weeks ?? 12;
+  const thisWeek = weekKey(dayKey(options.now ?? new Date(), options.timeZone));
+  const weekKeys = Array.from({ length: weekCount }, (_, index) =>
+    shiftDay(thisWeek, (index - weekCount + 1) * 7)
+  );
+  const weekly = new Map(weekKeys.map((week) => [week, new Map<string, number>()]));
+
+  const totals: ProjectTotals[] = [];
+  const allSessions: TrackingSession[] = [];
+
+  for (const project of projects) {
+    const sessions = projectSessions(project);
+    allSessions.push(...sessions);
+
+    totals.push({
+      name: project.name,
+      totalSeconds: sessions.reduce((sum, session) => sum + session.duration, 0),
+      sessionCount: sessions.length,
+      lastTracked: project.currentSession
+        ? lastActivity(project.currentSession)
+        : (project.data?.lastTracked ?? null),
+      running: project.currentSession !== null,
+      error: project.error,
+    });
+
+    for (const [week, seconds] of sumByWeek(sessions, options.timeZone)) {
+      weekly.get(week)?.set(project.name, seconds);
+    }
+  }
+
+  totals.sort((a, b) => b.totalSeconds - a.totalSeconds || a.name.localeCompare(b.name));
+
+  return {
+    projects: totals,
+    weeks: weekKeys.map((week) => ({
+      week,
+      seconds: Object.fromEntries(weekly.get(week) ?? []),
+    })),
+    hourOfDay: sumByHourOfDay(
+      filterSessions(allSessions, { from: weekKeys[0], timeZone: options.timeZone }),
+      options.timeZone
+    ),
+    totalSeconds: totals.reduce((sum, project) => sum + project.totalSeconds, 0),
+  };
+}
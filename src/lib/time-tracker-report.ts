@@ -0,0 +1,429 @@
+/**
+ * Time Tracker Reports - Turns recorded sessions into summaries and exports
+ *
+ * Formats:
+ * - CSV (one row per session) for spreadsheets
+ * - iCalendar (one VEVENT per session) for time-logging calendars
+ * - Markdown weekly digest with totals, streaks and busiest days
+ *
+ * Time can also be grouped by git branch, by the commit range a session spans
+ * or by hour of the day.
+ *
+ * Sessions are bucketed into calendar days in a given IANA time zone
+ * (the system zone by default), and date ranges are inclusive day keys.
+ */
+
+import { attributeSessionTime, formatDuration, type TrackingSession } from './time-tracker';
+import { formatCommitRange, shortSha } from './time-tracker-git';
+
+export interface ReportOptions {
+  from?: string | undefined; // first day included, YYYY-MM-DD
+  to?: string | undefined; // last day included, YYYY-MM-DD
+  timeZone?: string | undefined; // IANA zone, defaults to the system zone
+}
+
+export interface DigestOptions extends ReportOptions {
+  title?: string | undefined;
+  busiestDays?: number | undefined; // number of busiest days listed (default: 3)
+}
+
+export interface CalendarOptions {
+  calendarName: string;
+}
+
+export interface StreakSummary {
+  longest: number; // longest run of consecutive active days
+  current: number; // run ending on the last day of the range (or the day before)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Every zone offset is a multiple of 15 minutes, so hours never change mid-quarter
+const QUARTER_HOUR_MS = 15 * 60 * 1000;
+
+export const NO_BRANCH = '(no branch)';
+
+// Cached per zone: constructing DateTimeFormat is far slower than formatting
+const dayFormatters = new Map<string, Intl.DateTimeFormat>();
+const hourFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Calendar day (YYYY-MM-DD) of a date in the given time zone
+ */
+export function dayKey(date: Date, timeZone?: string): string {
+  const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  let formatter = dayFormatters.get(zone);
+  if (!formatter) {
+    // en-CA formats dates as YYYY-MM-DD
+    formatter = new Intl.DateTimeFormat('en-CA', {
+      timeZone: zone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    });
+    dayFormatters.set(zone, formatter);
+  }
+  return formatter.format(date);
+}
+
+/**
+ * Hour of the day (0-23) of a date in the given time zone
+ */
+export function hourOfDay(date: Date, timeZone?: string): number {
+  const zone = timeZone ?? Intl.DateTimeFormat().resolvedOptions().timeZone;
+  let formatter = hourFormatters.get(zone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', { timeZone: zone, hour: 'numeric', hourCycle: 'h23' });
+    hourFormatters.set(zone, formatter);
+  }
+  return Number(formatter.format(date));
+}
+
+/**
+ * Day key of the Monday starting the given day's week
+ */
+export function weekKey(day: string): string {
+  const date = new Date(`${day}T00:00:00Z`);
+  const mondayOffset = (date.getUTCDay() + 6) % 7;
+  return new Date(date.getTime() - mondayOffset * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Day key a number of days after (or before, when negative) another
+ */
+export function shiftDay(day: string, days: number): string {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Sessions whose start falls within the inclusive day range
+ */
+export function filterSessions(
+  sessions: TrackingSession[],
+  options: ReportOptions = {}
+): TrackingSession[] {
+  return sessions.filter((session) => {
+    const day = dayKey(new Date(session.startTime), options.timeZone);
+    return (!options.from || day >= options.from) && (!options.to || day <= options.to);
+  });
+}
+
+/**
+ * Total tracked seconds per bucket key
+ */
+export function sumBy(
+  sessions: TrackingSession[],
+  keyOf: (session: TrackingSession) => string
+): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const session of sessions) {
+    const key = keyOf(session);
+    totals.set(key, (totals.get(key) ?? 0) + session.duration);
+  }
+  return totals;
+}
+
+export function sumByDay(sessions: TrackingSession[], timeZone?: string): Map<string, number> {
+  return sumBy(sessions, (session) => dayKey(new Date(session.startTime), timeZone));
+}
+
+export function sumByWeek(sessions: TrackingSession[], timeZone?: string): Map<string, number> {
+  return sumBy(sessions, (session) => weekKey(dayKey(new Date(session.startTime), timeZone)));
+}
+
+/**
+ * Tracked seconds per hour of the day (index 0-23). A session's active time is
+ * spread evenly over its wall-clock span, so long sessions fill several hours.
+ */
+export function sumByHourOfDay(sessions: TrackingSession[], timeZone?: string): number[] {
+  const totals = new Map<number, number>();
+
+  for (const session of sessions) {
+    const startMs = Date.parse(session.startTime);
+    const spanMs = Math.max(session.wallSeconds, session.duration) * 1000;
+    if (spanMs === 0) {
+      continue;
+    }
+
+    const endMs = startMs + spanMs;
+    for (let at = startMs; at < endMs; ) {
+      const next = Math.min(endMs, (Math.floor(at / QUARTER_HOUR_MS) + 1) * QUARTER_HOUR_MS);
+      const hour = hourOfDay(new Date(at), timeZone);
+      totals.set(hour, (totals.get(hour) ?? 0) + (session.duration * (next - at)) / spanMs);
+      at = next;
+    }
+  }
+
+  return Array.from({ length: 24 }, (_, hour) => totals.get(hour) ?? 0);
+}
+
+/**
+ * Tracked seconds per area across sessions (see attributeSessionTime)
+ */
+export function sumByArea(sessions: TrackingSession[]): Map<string, number> {
+  const areas = new Map<string, number>();
+  for (const session of sessions) {
+    for (const [area, seconds] of attributeSessionTime(session)) {
+      areas.set(area, (areas.get(area) ?? 0) + seconds);
+    }
+  }
+  return areas;
+}
+
+/**
+ * Branch a session was tagged with, NO_BRANCH outside git or on a detached HEAD
+ */
+export function sessionBranch(session: TrackingSession): string {
+  return session.git?.branch ?? NO_BRANCH;
+}
+
+/**
+ * Commit range a session spans (start..end HEAD), NO_BRANCH without git info
+ */
+export function sessionCommitRange(session: TrackingSession): string {
+  return session.git ? formatCommitRange(session.git.startCommit, session.git.endCommit) : NO_BRANCH;
+}
+
+export function sumByBranch(sessions: TrackingSession[]): Map<string, number> {
+  return sumBy(sessions, sessionBranch);
+}
+
+/**
+ * Tracked seconds per branch and commit range, so feature work can be costed
+ * against the commits it produced
+ */
+export function sumByCommitRange(sessions: TrackingSession[]): Map<string, number> {
+  return sumBy(sessions, (session) => `${sessionBranch(session)} ${sessionCommitRange(session)}`);
+}
+
+/**
+ * Longest and current runs of consecutive active days
+ */
+export function computeStreaks(activeDays: Iterable<string>, lastDay: string): StreakSummary {
+  const days = [...new Set(activeDays)].sort();
+  let longest = 0;
+  let run = 0;
+  let previous: string | null = null;
+
+  for (const day of days) {
+    run = previous !== null && shiftDay(previous, 1) === day ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  }
+
+  // The current streak survives a last day without activity (yet)
+  const active = new Set(days);
+  let current = 0;
+  let cursor = active.has(lastDay) ? lastDay : shiftDay(lastDay, -1);
+  while (active.has(cursor)) {
+    current++;
+    cursor = shiftDay(cursor, -1);
+  }
+
+  return { longest, current };
+}
+
+function escapeCsv(value: string | number): string {
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Export sessions as CSV, one row per session
+ */
+export function exportCsv(sessions: TrackingSession[], options: ReportOptions = {}): string {
+  const header = [
+    'date',
+    'start',
+    'end',
+    'active_seconds',
+    'wall_seconds',
+    'active_hours',
+    'files',
+    'top_area',
+    'branch',
+    'commits',
+  ];
+  const rows = filterSessions(sessions, options).map((session) => {
+    const [topArea = ''] = [...attributeSessionTime(session).entries()]
+      .sort(([, a], [, b]) => b - a)
+      .map(([area]) => area);
+
+    return [
+      dayKey(new Date(session.startTime), options.timeZone),
+      session.startTime,
+      session.endTime ?? '',
+      session.activeSeconds,
+      session.wallSeconds,
+      (session.activeSeconds / 3600).toFixed(2),
+      session.filesModified.length,
+      topArea,
+      session.git?.branch ?? '',
+      (session.git?.commits ?? []).map((commit) => shortSha(commit.sha)).join(' '),
+    ];
+  });
+
+  return [header, ...rows].map((row) => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeIcsText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 section 3.1)
+ */
+function foldIcsLine(line: string): string {
+  const chunks: string[] = [];
+  let chunk = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = Buffer.byteLength(char, 'utf-8');
+    // Continuation lines start with a space, which counts against their 75 octets
+    const limit = chunks.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      chunks.push(chunk);
+      chunk = '';
+      octets = 0;
+    }
+    chunk += char;
+    octets += size;
+  }
+  chunks.push(chunk);
+
+  return chunks.join('\r\n ');
+}
+
+/**
+ * Export sessions as an iCalendar file with one VEVENT per session
+ */
+export function exportICalendar(
+  sessions: TrackingSession[],
+  calendar: CalendarOptions,
+  options: ReportOptions = {}
+): string {
+  const stamp = formatIcsDate(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//prasathup//time-tracker//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(calendar.calendarName)}`,
+  ];
+
+  for (const session of filterSessions(sessions, options)) {
+    const start = new Date(session.startTime);
+    const end = session.endTime
+      ? new Date(session.endTime)
+      : new Date(start.getTime() + session.wallSeconds * 1000);
+    const files = session.filesModified.map((file) => file.path).join(', ');
+    const commits = (session.git?.commits ?? []).map((commit) => `${shortSha(commit.sha)} ${commit.message}`);
+    const description = [
+      `Active ${formatDuration(session.activeSeconds)} over ${formatDuration(session.wallSeconds)}`,
+      session.git ? `Branch: ${sessionBranch(session)} (${sessionCommitRange(session)})` : '',
+      commits.length > 0 ? `Commits:\n${commits.join('\n')}` : '',
+      files ? `Files: ${files}` : '',
+    ]
+      .filter(Boolean)
+      .join('\n');
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${formatIcsDate(start)}-${start.getTime()}@time-tracker`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART:${formatIcsDate(start)}`,
+      `DTEND:${formatIcsDate(end)}`,
+      `SUMMARY:${escapeIcsText(`${calendar.calendarName}: ${formatDuration(session.activeSeconds)} active`)}`,
+      `DESCRIPTION:${escapeIcsText(description)}`,
+      'END:VEVENT'
+    );
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+function formatHours(seconds: number): string {
+  return `${(seconds / 3600).toFixed(1)}h`;
+}
+
+/**
+ * Export a Markdown digest: overall totals, streaks, busiest days, top areas
+ * and a per-week breakdown of daily time
+ */
+export function exportMarkdownDigest(sessions: TrackingSession[], options: DigestOptions = {}): string {
+  const { timeZone } = options;
+  const selected = filterSessions(sessions, options);
+  const today = dayKey(new Date(), timeZone);
+  const lastDay = options.to && options.to < today ? options.to : today;
+  const lines = [`# ${options.title ?? 'Time tracking digest'}`, ''];
+
+  const rangeLabel = `${options.from ?? 'first session'} – ${options.to ?? lastDay}`;
+  if (selected.length === 0) {
+    lines.push(`No sessions recorded for ${rangeLabel}.`, '');
+    return lines.join('\n');
+  }
+
+  const total = selected.reduce((sum, session) => sum + session.duration, 0);
+  const byDay = sumByDay(selected, timeZone);
+  const streaks = computeStreaks(byDay.keys(), lastDay);
+
+  lines.push(
+    `**Range:** ${rangeLabel}  `,
+    `**Total:** ${formatDuration(total)} in ${selected.length} sessions over ${byDay.size} days  `,
+    `**Average per active day:** ${formatDuration(Math.round(total / byDay.size))}  `,
+    `**Streaks:** current ${streaks.current} days, longest ${streaks.longest} days`,
+    ''
+  );
+
+  const busiest = [...byDay.entries()]
+    .sort(([dayA, a], [dayB, b]) => b - a || dayA.localeCompare(dayB))
+    .slice(0, options.busiestDays ?? 3);
+  lines.push('## Busiest days', '');
+  for (const [day, seconds] of busiest) {
+    lines.push(`- ${day}: ${formatDuration(seconds)}`);
+  }
+  lines.push('');
+
+  const areas = [...sumByArea(selected).entries()].sort(([, a], [, b]) => b - a);
+  lines.push('## Areas', '', '| Area | Time | Share |', '| --- | ---: | ---: |');
+  for (const [area, seconds] of areas) {
+    // Sessions of a single file event last 0s: no share to speak of
+    const share = total > 0 ? `${Math.round((seconds / total) * 100)}%` : '–';
+    lines.push(`| \`${area}\` | ${formatHours(seconds)} | ${share} |`);
+  }
+  lines.push('');
+
+  const branches = [...sumByBranch(selected).entries()].sort(([, a], [, b]) => b - a);
+  if (branches.some(([branch]) => branch !== NO_BRANCH)) {
+    lines.push('## Branches', '', '| Branch | Time | Commits |', '| --- | ---: | ---: |');
+    for (const [branch, seconds] of branches) {
+      const commits = selected
+        .filter((session) => sessionBranch(session) === branch)
+        .reduce((sum, session) => sum + (session.git?.commits.length ?? 0), 0);
+      lines.push(`| \`${branch}\` | ${formatHours(seconds)} | ${commits} |`);
+    }
+    lines.push('');
+  }
+
+  const weeks = new Map<string, Array<[string, number]>>();
+  for (const [day, seconds] of [...byDay.entries()].sort(([a], [b]) => a.localeCompare(b))) {
+    const week = weekKey(day);
+    weeks.set(week, [...(weeks.get(week) ?? []), [day, seconds]]);
+  }
+
+  for (const [week, days] of weeks) {
+    const weekTotal = days.reduce((sum, [, seconds]) => sum + seconds, 0);
+    lines.push(`## Week of ${week} — ${formatDuration(weekTotal)}`, '', '| Day | Time |', '| --- | ---: |');
+    for (const [day, seconds] of days) {
+      lines.push(`| ${day} | ${formatDuration(seconds)} |`);
+    }
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
@@ -3,52 +3,408 @@
  * 
  * Features:
  * - Tracks time only when files are actively modified
- * - Stops tracking after inactivity period (default: 5 minutes)
+ * - Credits only the time between activity events, each gap capped (default: 5 minutes)
+ * - Stops tracking after inactivity period (default: 15 minutes)
  * - Resumes tracking when activity resumes
  * - Logs sessions to JSON file for analysis
+ * - Writes atomically with rotating backups and a session journal, compacted after each save
+ * - Closes the open session on SIGINT/SIGTERM
+ * - Tags sessions with the git branch and the commits made during them
+ * - Filters files with gitignore-style globs (plus the project .gitignore)
+ * - Reads project overrides from .timetrackerrc.json
  * - Portable across projects
  */
 
-import { watch, existsSync } from 'fs';
+import { watch, existsSync, readFileSync } from 'fs';
 import { homedir } from 'os';
-import { readFile, writeFile, mkdir } from 'fs/promises';
-import { join, dirname, basename } from 'path';
+import { readFile, mkdir, rm, open, rename, copyFile, appendFile } from 'fs/promises';
+import { join, dirname, basename, extname, relative, sep } from 'path';
+import { matchGlobRules, parseGlobRules, type GlobRule } from './glob-match';
+import { readCommitsBetween, readGitHead, resolveGitDir, type GitCommit, type GitHead } from './time-tracker-git';
+
+export interface FileActivity {
+  path: string; // relative to project root, POSIX separators
+  touches: number; // change events, bursts from a single save count once
+  lastModified: string;
+}
+
+export interface SessionGitInfo {
+  branch: string | null; // branch checked out when the session started (null when detached)
+  startCommit: string | null; // HEAD at session start
+  endCommit: string | null; // HEAD when the session was closed
+  commits: GitCommit[]; // commits made during the session, oldest first
+}
 
 export interface TrackingSession {
   startTime: string;
-  endTime: string | null;
-  duration: number; // in seconds
-  filesModified: string[];
+  endTime: string | null; // last activity, not the moment the session was closed
+  duration: number; // credited time in seconds (same as activeSeconds)
+  activeSeconds: number; // sum of gaps between activity events, each capped at activityGap
+  wallSeconds: number; // first to last activity
+  filesModified: FileActivity[];
+  git?: SessionGitInfo | undefined; // missing outside git repositories and in older sessions
 }
 
 export interface TrackingData {
+  schemaVersion: number;
   sessions: TrackingSession[];
   totalSeconds: number;
   firstTracked: string | null;
   lastTracked: string | null;
 }
 
+export interface TrackerStats extends TrackingData {
+  // Session in progress (in this process or a running tracker), null when idle
+  currentSession: TrackingSession | null;
+}
+
+/**
+ * Session as stored by trackers that predate active-time accounting
+ */
+type StoredSession = Omit<TrackingSession, 'activeSeconds' | 'wallSeconds'> &
+  Partial<Pick<TrackingSession, 'activeSeconds' | 'wallSeconds'>>;
+
+/**
+ * Data file as found on disk, in any schema version up to the current one
+ */
+export type StoredTrackingData = Omit<TrackingData, 'sessions' | 'schemaVersion'> & {
+  schemaVersion?: number; // missing in files written before versioning (version 1)
+  sessions: StoredSession[];
+};
+
+/**
+ * Line in the append-only journal, written before the data file is updated
+ */
+export interface JournalEvent {
+  type: 'session-start' | 'session-end';
+  at: string;
+  session: TrackingSession;
+}
+
+export interface MigrationResult {
+  data: TrackingData;
+  migratedSessions: number;
+  previousTotalSeconds: number;
+}
+
 export interface TrackerConfig {
   // Time in milliseconds before considering session inactive
   inactivityTimeout: number;
+  // Longest gap in milliseconds between two activity events that still counts as work
+  activityGap: number;
   // Directories to watch (relative to project root)
   watchDirectories: string[];
-  // File extensions to track (empty array = all files)
+  // File extensions to track (empty array = all files), used when no include globs are set
   trackedExtensions: string[];
-  // Files/directories to ignore
+  // Globs a file must match to be tracked, whatever its extension (empty array = all files)
+  includePatterns: string[];
+  // Globs for files/directories to ignore, gitignore syntax (see glob-match.ts)
   ignorePatterns: string[];
+  // Also ignore what the project .gitignore ignores
+  useGitignore: boolean;
   // Data file path (relative to project root)
   dataFile: string;
+  // Number of previous data files kept as rotating backups
+  backupCount: number;
+  // Close the open session and exit on SIGINT/SIGTERM
+  handleSignals: boolean;
+  // Record branch and commits from the project's .git directory
+  trackGit: boolean;
 }
 
 const DEFAULT_CONFIG: TrackerConfig = {
   inactivityTimeout: 15 * 60 * 1000, // 15 minutes
+  activityGap: 5 * 60 * 1000, // 5 minutes
   watchDirectories: ['src', 'public', 'docs'],
   trackedExtensions: ['.astro', '.ts', '.tsx', '.js', '.jsx', '.css', '.md', '.json'],
+  includePatterns: [],
   ignorePatterns: ['node_modules', 'dist', '.astro', '.git', '*.log'],
+  useGitignore: true,
   dataFile: '.time-tracker/data.json', // Will be overridden to use home directory
+  backupCount: 5,
+  handleSignals: true,
+  trackGit: true,
 };
 
+// Project-local overrides, merged over DEFAULT_CONFIG
+export const PROJECT_CONFIG_FILE = '.timetrackerrc.json';
+
+// Journal next to the data file (see JournalEvent)
+export const JOURNAL_FILE = 'journal.ndjson';
+
+// Version 1: sessions without active/wall time; version 2: heartbeat accounting
+export const CURRENT_SCHEMA_VERSION = 2;
+
+// Editors fire several 'change' events per save; events closer than this count as one touch
+const TOUCH_DEDUPE_WINDOW_MS = 1000;
+
+// Directory depth used to group files into areas (e.g. src/components/craft)
+const AREA_DEPTH = 3;
+
+export const UNATTRIBUTED_AREA = '(unattributed)';
+
+// Each project keeps its data in ~/<prefix><project-name>/
+export const TRACKER_DIR_PREFIX = '.time-tracker-';
+
+/**
+ * Snapshot of the running tracker's open session, shared with other processes
+ */
+export interface LiveSessionSnapshot {
+  pid: number;
+  session: TrackingSession;
+}
+
+/**
+ * Read .timetrackerrc.json from the project root. Keys must exist in
+ * TrackerConfig and carry the same kind of value as the default; anything
+ * else is reported and skipped rather than failing the tracker.
+ */
+export function loadProjectConfig(projectRoot: string): Partial<TrackerConfig> {
+  const configPath = join(projectRoot, PROJECT_CONFIG_FILE);
+  if (!existsSync(configPath)) {
+    return {};
+  }
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(configPath, 'utf-8'));
+  } catch (error) {
+    console.warn(`Ignoring ${PROJECT_CONFIG_FILE}, it is not valid JSON:`, error);
+    return {};
+  }
+
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    console.warn(`Ignoring ${PROJECT_CONFIG_FILE}, expected a JSON object`);
+    return {};
+  }
+
+  const defaults = new Map<string, unknown>(Object.entries(DEFAULT_CONFIG));
+  const config = new Map<string, unknown>();
+
+  for (const [key, value] of Object.entries(raw)) {
+    const fallback = defaults.get(key);
+    const expectsArray = Array.isArray(fallback);
+    const valid = expectsArray
+      ? Array.isArray(value) && value.every((item) => typeof item === 'string')
+      : fallback !== undefined && typeof value === typeof fallback;
+
+    if (valid) {
+      config.set(key, value);
+    } else {
+      console.warn(`Ignoring ${PROJECT_CONFIG_FILE} key "${key}": unknown key or wrong type`);
+    }
+  }
+
+  return Object.fromEntries(config) as Partial<TrackerConfig>;
+}
+
+/**
+ * Check whether a process with the given PID is still alive
+ */
+export function isProcessAlive(pid: number): boolean {
+  try {
+    // Signal 0 performs the permission/existence check without signalling
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // EPERM means the process exists but belongs to someone else
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
+
+/**
+ * Map a project-relative path to its top-level area: the containing directory,
+ * truncated to AREA_DEPTH segments (src/lib/memories/physics.ts -> src/lib/memories,
+ * src/content/journey/2024/trip.md -> src/content/journey)
+ */
+export function getTrackedArea(path: string): string {
+  const segments = path.split('/').slice(0, -1);
+  return segments.length > 0 ? segments.slice(0, AREA_DEPTH).join('/') : '.';
+}
+
+/**
+ * Split a session's duration across areas in proportion to the touches on their files
+ */
+export function attributeSessionTime(session: TrackingSession): Map<string, number> {
+  const attribution = new Map<string, number>();
+  const files = session.filesModified ?? [];
+  const totalTouches = files.reduce((sum, file) => sum + file.touches, 0);
+
+  if (totalTouches === 0) {
+    attribution.set(UNATTRIBUTED_AREA, session.duration);
+    return attribution;
+  }
+
+  for (const file of files) {
+    const area = getTrackedArea(file.path);
+    const share = (session.duration * file.touches) / totalTouches;
+    attribution.set(area, (attribution.get(area) ?? 0) + share);
+  }
+
+  return attribution;
+}
+
+/**
+ * Recompute active/wall time for sessions recorded before heartbeat accounting.
+ * Those sessions ran from the first event until the session was closed, which was
+ * inactivityTimeout after the last event unless the tracker was stopped sooner.
+ * The last file activity pins the real end when it was recorded; otherwise any
+ * session at least inactivityTimeout long is assumed to carry that idle padding.
+ */
+export function migrateTrackingData(
+  stored: StoredTrackingData,
+  inactivityTimeout: number = DEFAULT_CONFIG.inactivityTimeout
+): MigrationResult {
+  let migratedSessions = 0;
+
+  const sessions = stored.sessions.map((session): TrackingSession => {
+    if (session.activeSeconds !== undefined && session.wallSeconds !== undefined) {
+      return session as TrackingSession;
+    }
+
+    migratedSessions++;
+    const filesModified = session.filesModified ?? [];
+    const startMs = Date.parse(session.startTime);
+    const lastActivityMs = Math.max(...filesModified.map((file) => Date.parse(file.lastModified)));
+    const paddingSeconds = inactivityTimeout / 1000;
+
+    let activeSeconds: number;
+    if (Number.isFinite(lastActivityMs) && lastActivityMs >= startMs) {
+      activeSeconds = Math.min(session.duration, Math.floor((lastActivityMs - startMs) / 1000));
+    } else if (session.duration >= paddingSeconds) {
+      activeSeconds = session.duration - paddingSeconds;
+    } else {
+      activeSeconds = session.duration;
+    }
+
+    const endTime = new Date(startMs + activeSeconds * 1000).toISOString();
+    return {
+      ...session,
+      endTime: session.endTime === null ? null : endTime,
+      duration: activeSeconds,
+      activeSeconds,
+      wallSeconds: activeSeconds,
+      filesModified,
+    };
+  });
+
+  return {
+    data: withTotals({ ...stored, schemaVersion: CURRENT_SCHEMA_VERSION, sessions }),
+    migratedSessions,
+    previousTotalSeconds: stored.totalSeconds,
+  };
+}
+
+/**
+ * Recompute totals and first/last timestamps from the session list
+ */
+function withTotals(data: TrackingData): TrackingData {
+  const firstSession = data.sessions[0];
+  const lastSession = data.sessions[data.sessions.length - 1];
+
+  return {
+    ...data,
+    totalSeconds: data.sessions.reduce((sum, session) => sum + session.duration, 0),
+    firstTracked: firstSession?.startTime ?? data.firstTracked,
+    lastTracked: lastSession?.endTime ?? data.lastTracked,
+  };
+}
+
+// Distinguishes temp files of overlapping writes in one process (live snapshots aren't awaited)
+let tempFileCounter = 0;
+
+/**
+ * Write a file so readers only ever see the old or the new content:
+ * write and fsync a temp file next to it, then rename over the target
+ */
+async function writeFileAtomic(path: string, content: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${tempFileCounter++}.tmp`;
+  const handle = await open(tempPath, 'w');
+
+  try {
+    await handle.writeFile(content, 'utf-8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  await rename(tempPath, path);
+}
+
+/**
+ * Parse a data file, rejecting content that doesn't look like tracking data
+ */
+export function parseStoredData(content: string): StoredTrackingData {
+  const parsed = JSON.parse(content) as StoredTrackingData;
+  if (!parsed || !Array.isArray(parsed.sessions)) {
+    throw new Error('Tracking data has no sessions array');
+  }
+  return parsed;
+}
+
+/**
+ * Add sessions ended in the journal (ndjson content) but missing from the data,
+ * e.g. lost to a crash or torn write, or not yet saved when another process reads
+ */
+export function replayJournal(data: TrackingData, journal: string): TrackingData {
+  const known = new Set(data.sessions.map((session) => session.startTime));
+  const replayed: TrackingSession[] = [];
+
+  for (const line of journal.split('\n')) {
+    if (!line.trim()) {
+      continue;
+    }
+
+    let event: JournalEvent;
+    try {
+      event = JSON.parse(line);
+    } catch {
+      // A crash mid-append can leave a torn last line
+      continue;
+    }
+
+    if (event.type === 'session-end' && !known.has(event.session.startTime)) {
+      known.add(event.session.startTime);
+      replayed.push(event.session);
+    }
+  }
+
+  if (replayed.length === 0) {
+    return data;
+  }
+
+  const sessions = [...data.sessions, ...replayed].sort((a, b) =>
+    a.startTime.localeCompare(b.startTime)
+  );
+  return withTotals({ ...data, sessions });
+}
+
+/**
+ * Format duration in seconds to human-readable string
+ */
+export function formatDuration(seconds: number): string {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${hours}h ${minutes}m ${secs}s`;
+  } else if (minutes > 0) {
+    return `${minutes}m ${secs}s`;
+  } else {
+    return `${secs}s`;
+  }
+}
+
+/**
+ * Tag a session with the branch and HEAD it started on
+ */
+function tagGitStart(session: TrackingSession, head: GitHead | null): void {
+  if (head) {
+    session.git = { branch: head.branch, startCommit: head.commit, endCommit: head.commit, commits: [] };
+  }
+}
+
 export class TimeTracker {
   private config: TrackerConfig;
   private currentSession: TrackingSession | null = null;
@@ -56,17 +412,35 @@ export class TimeTracker {
   private watchers: Array<ReturnType<typeof watch>> = [];
   private isTracking = false;
   private projectRoot: string;
+  private includeRules: GlobRule[];
+  private ignoreRules: GlobRule[];
+  // Time of the last activity event in the current session (ms since epoch)
+  private lastActivityAt: number | null = null;
+  // Credited time in ms, kept unrounded so short gaps don't get lost
+  private activeMs = 0;
+  // HEAD as last read, so a new session is tagged before its first snapshot
+  private gitHead: GitHead | null = null;
+  // The new session's git re-read and journal line, awaited before it can end
+  private sessionStart: Promise<void> | null = null;
+  // Snapshot writes and removals run one after another, in call order
+  private liveSnapshotQueue: Promise<void> = Promise.resolve();
+  private readonly signalHandler = (signal: NodeJS.Signals) => {
+    void this.shutdown(signal);
+  };
 
   constructor(config: Partial<TrackerConfig> = {}, projectRoot: string) {
-    this.config = { ...DEFAULT_CONFIG, ...config };
+    // Precedence: defaults < .timetrackerrc.json < options passed in code
+    this.config = { ...DEFAULT_CONFIG, ...loadProjectConfig(projectRoot), ...config };
     this.projectRoot = projectRoot;
+    this.includeRules = parseGlobRules(this.config.includePatterns);
+    this.ignoreRules = parseGlobRules([...this.config.ignorePatterns, ...this.readGitignore()]);
     
     // Store data in home directory for privacy (not in project)
     // Format: ~/.time-tracker-<project-name>/data.json
     if (!this.config.dataFile.startsWith('/') && !this.config.dataFile.startsWith('~')) {
       const projectName = basename(projectRoot);
       const homeDir = homedir();
-      this.config.dataFile = join(homeDir, `.time-tracker-${projectName}`, 'data.json');
+      this.config.dataFile = join(homeDir, `${TRACKER_DIR_PREFIX}${projectName}`, 'data.json');
     }
   }
 
@@ -83,7 +457,14 @@ export class TimeTracker {
     this.isTracking = true;
 
     // Load existing data (ensures storage file/dir exist before watching)
-    await this.loadData();
+    await this.loadData({ forWrite: true });
+    await this.recoverOrphanedSession();
+    this.gitHead = await this.readGitHead();
+
+    if (this.config.handleSignals) {
+      process.on('SIGINT', this.signalHandler);
+      process.on('SIGTERM', this.signalHandler);
+    }
 
     // Set up file watchers for each directory
     for (const dir of this.config.watchDirectories) {
@@ -100,8 +481,13 @@ export class TimeTracker {
           (eventType, filename) => {
             // Only track 'change' events (file modifications)
             // Ignore 'rename' events which can be noise
-            if (eventType === 'change' && filename && this.shouldTrackFile(filename)) {
-              this.handleFileActivity();
+            if (eventType !== 'change' || !filename) {
+              return;
+            }
+
+            const path = relative(this.projectRoot, join(fullPath, filename)).split(sep).join('/');
+            if (this.isTracked(path)) {
+              this.handleFileActivity(path);
             }
           }
         );
@@ -126,6 +512,8 @@ export class TimeTracker {
 
     console.log('Stopping time tracker...');
     this.isTracking = false;
+    process.off('SIGINT', this.signalHandler);
+    process.off('SIGTERM', this.signalHandler);
 
     // End current session if active
     await this.endCurrentSession();
@@ -145,17 +533,33 @@ export class TimeTracker {
     console.log('Time tracker stopped');
   }
 
+  /**
+   * Close the open session before the process goes down
+   */
+  private async shutdown(signal: NodeJS.Signals): Promise<void> {
+    console.log(`Received ${signal}, saving session...`);
+
+    try {
+      await this.stop();
+      process.exit(0);
+    } catch (error) {
+      console.error('Failed to save session:', error);
+      process.exit(1);
+    }
+  }
+
   /**
    * Handle file activity - start or continue tracking
    */
-  private handleFileActivity(): void {
+  private handleFileActivity(path: string): void {
     // Clear existing inactivity timer
     if (this.inactivityTimer) {
       clearTimeout(this.inactivityTimer);
       this.inactivityTimer = null;
     }
 
-    const now = new Date().toISOString();
+    const nowMs = Date.now();
+    const now = new Date(nowMs).toISOString();
 
     // Start new session if not tracking
     if (!this.currentSession) {
@@ -163,11 +567,31 @@ export class TimeTracker {
         startTime: now,
         endTime: null,
         duration: 0,
+        activeSeconds: 0,
+        wallSeconds: 0,
         filesModified: [],
       };
+      this.activeMs = 0;
       console.log(`[${new Date().toLocaleTimeString()}] Session started`);
+      tagGitStart(this.currentSession, this.gitHead);
+      this.sessionStart = this.captureGitStart(this.currentSession).then((session) =>
+        this.appendJournal('session-start', session)
+      );
+    } else if (this.lastActivityAt !== null) {
+      // Heartbeat: credit the gap since the previous event, capped so breaks don't count
+      this.activeMs += Math.min(nowMs - this.lastActivityAt, this.config.activityGap);
     }
 
+    this.lastActivityAt = nowMs;
+    this.currentSession.activeSeconds = Math.floor(this.activeMs / 1000);
+    this.currentSession.duration = this.currentSession.activeSeconds;
+    this.currentSession.wallSeconds = Math.floor(
+      (nowMs - Date.parse(this.currentSession.startTime)) / 1000
+    );
+
+    this.recordFileTouch(path, now);
+    void this.writeLiveSession();
+
     // Set inactivity timer - will end session after timeout
     this.inactivityTimer = setTimeout(async () => {
       await this.endCurrentSession();
@@ -175,54 +599,129 @@ export class TimeTracker {
   }
 
   /**
-   * End current session and save to file
+   * Attribute a change event to its file in the current session
    */
-  private async endCurrentSession(): Promise<void> {
+  private recordFileTouch(path: string, timestamp: string): void {
     if (!this.currentSession) {
       return;
     }
 
-    const now = new Date();
-    const sessionStart = new Date(this.currentSession.startTime);
-    
-    // Calculate duration (updates every time file activity occurs)
-    const duration = Math.floor((now.getTime() - sessionStart.getTime()) / 1000);
+    const existing = this.currentSession.filesModified.find((file) => file.path === path);
 
-    this.currentSession.endTime = now.toISOString();
-    this.currentSession.duration = duration;
+    if (!existing) {
+      this.currentSession.filesModified.push({ path, touches: 1, lastModified: timestamp });
+      return;
+    }
 
-    // Load existing data and add this session
-    const data = await this.loadData();
+    const sinceLastTouch = Date.parse(timestamp) - Date.parse(existing.lastModified);
+    if (sinceLastTouch >= TOUCH_DEDUPE_WINDOW_MS) {
+      existing.touches++;
+    }
+    existing.lastModified = timestamp;
+  }
 
-    // Update first/last tracked timestamps
-    if (!data.firstTracked) {
-      data.firstTracked = this.currentSession.startTime;
+  /**
+   * End current session and save to file
+   */
+  private async endCurrentSession(): Promise<void> {
+    // The start's journal line must precede the end and the compaction that follows it
+    await this.sessionStart;
+    this.sessionStart = null;
+    if (!this.currentSession) {
+      return;
     }
-    data.lastTracked = this.currentSession.endTime;
 
-    // Add session
-    data.sessions.push({ ...this.currentSession });
-    data.totalSeconds += duration;
+    // The session ends at its last activity; the idle wait for the timeout is not work
+    const sessionStart = Date.parse(this.currentSession.startTime);
+    const end = new Date(this.lastActivityAt ?? sessionStart);
+    const duration = Math.floor(this.activeMs / 1000);
 
-    // Save data
-    await this.saveData(data);
+    this.currentSession.endTime = end.toISOString();
+    this.currentSession.duration = duration;
+    this.currentSession.activeSeconds = duration;
+    this.currentSession.wallSeconds = Math.floor((end.getTime() - sessionStart) / 1000);
+    await this.captureGitEnd(this.currentSession);
+
+    await this.persistSession({ ...this.currentSession });
 
     console.log(
-      `[${now.toLocaleTimeString()}] Session ended - Duration: ${this.formatDuration(duration)}`
+      `[${new Date().toLocaleTimeString()}] Session ended - Active: ${formatDuration(duration)}, ` +
+        `span: ${formatDuration(this.currentSession.wallSeconds)}`
     );
 
     this.currentSession = null;
+    this.lastActivityAt = null;
+    this.activeMs = 0;
+    await this.clearLiveSession();
   }
 
   /**
-   * Check if file should be tracked based on extension and ignore patterns
+   * Re-read HEAD for a new session already tagged from the cached one, in case
+   * the branch changed while the tracker was idle
    */
-  private shouldTrackFile(filename: string): boolean {
-    // Check ignore patterns
-    for (const pattern of this.config.ignorePatterns) {
-      if (filename.includes(pattern)) {
-        return false;
+  private async captureGitStart(session: TrackingSession): Promise<TrackingSession> {
+    const head = await this.readGitHead();
+    if (head && (head.branch !== this.gitHead?.branch || head.commit !== this.gitHead?.commit)) {
+      this.gitHead = head;
+      tagGitStart(session, head);
+      await this.writeLiveSession();
+    }
+    return session;
+  }
+
+  /**
+   * Record where HEAD ended up and which commits were made during the session.
+   * Commits made after the last file save but before the session closed still count.
+   */
+  private async captureGitEnd(session: TrackingSession): Promise<void> {
+    if (!session.git) {
+      return;
+    }
+
+    try {
+      const gitDir = await resolveGitDir(this.projectRoot);
+      if (!gitDir) {
+        return;
       }
+
+      const head = await readGitHead(gitDir);
+      this.gitHead = head;
+      session.git.endCommit = head.commit;
+      session.git.commits = await readCommitsBetween(gitDir, new Date(session.startTime), new Date());
+    } catch (error) {
+      console.warn('Could not read git state at session end:', error);
+    }
+  }
+
+  /**
+   * Current branch and HEAD, or null when git tracking is off or unavailable
+   */
+  private async readGitHead(): Promise<GitHead | null> {
+    if (!this.config.trackGit) {
+      return null;
+    }
+
+    try {
+      const gitDir = await resolveGitDir(this.projectRoot);
+      return gitDir ? await readGitHead(gitDir) : null;
+    } catch (error) {
+      console.warn('Could not read git state:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Check if a project-relative path (POSIX separators) should be tracked:
+   * not ignored, and matching the include globs or, without any, a tracked extension
+   */
+  isTracked(path: string): boolean {
+    if (matchGlobRules(path, this.ignoreRules)) {
+      return false;
+    }
+
+    // Include globs name files explicitly, so Makefile or .env.example can match one
+    if (this.includeRules.length > 0) {
+      return matchGlobRules(path, this.includeRules);
     }
 
     // If no extension filter, track all files
@@ -230,95 +729,347 @@ export class TimeTracker {
       return true;
     }
 
-    // Check if file extension matches
-    const ext = filename.substring(filename.lastIndexOf('.'));
-    return this.config.trackedExtensions.includes(ext);
+    // extname is '' for dotfiles (.env) and extensionless files (Makefile)
+    const ext = extname(basename(path));
+    return ext !== '' && this.config.trackedExtensions.includes(ext);
+  }
+
+  /**
+   * Lines of the project .gitignore, when enabled and present
+   */
+  private readGitignore(): string[] {
+    const gitignorePath = join(this.projectRoot, '.gitignore');
+    if (!this.config.useGitignore || !existsSync(gitignorePath)) {
+      return [];
+    }
+
+    try {
+      return readFileSync(gitignorePath, 'utf-8').split(/\r?\n/);
+    } catch (error) {
+      console.warn('Could not read .gitignore:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Persist a finished session: journal first, so a crash before the data file
+   * is rewritten still leaves the session recoverable
+   */
+  private async persistSession(session: TrackingSession): Promise<void> {
+    await this.appendJournal('session-end', session);
+
+    // loadData replays the journal, so the session is already part of the data
+    const data = await this.loadData({ forWrite: true });
+    await this.saveData(data);
   }
 
   /**
-   * Load tracking data from file
+   * Load tracking data: read the data file (or its newest readable backup),
+   * upgrade it to the current schema and replay journaled sessions it lacks.
+   * `forWrite` is set by callers about to save, see readStoredData.
    */
-  private async loadData(): Promise<TrackingData> {
+  private async loadData({ forWrite = false }: { forWrite?: boolean } = {}): Promise<TrackingData> {
+    const stored = (await this.readStoredData({ forWrite })) ?? {
+      sessions: [],
+      totalSeconds: 0,
+      firstTracked: null,
+      lastTracked: null,
+    };
+
+    return this.replayJournal(this.upgradeData(stored).data);
+  }
+
+  /**
+   * Bring stored data up to CURRENT_SCHEMA_VERSION, refusing files from newer trackers
+   */
+  private upgradeData(stored: StoredTrackingData): MigrationResult {
+    const version = stored.schemaVersion ?? 1;
+    if (version > CURRENT_SCHEMA_VERSION) {
+      throw new Error(
+        `Tracking data schema v${version} is newer than this tracker (v${CURRENT_SCHEMA_VERSION}); refusing to overwrite it`
+      );
+    }
+
+    return migrateTrackingData(stored, this.config.inactivityTimeout);
+  }
+
+  /**
+   * Rewrite the data file with active time recomputed for legacy sessions
+   */
+  async migrate(): Promise<MigrationResult> {
+    const stored = await this.readStoredData({ forWrite: true });
+    if (!stored) {
+      return { data: await this.loadData({ forWrite: true }), migratedSessions: 0, previousTotalSeconds: 0 };
+    }
+
+    const result = this.upgradeData(stored);
+    if (result.migratedSessions > 0 || stored.schemaVersion !== CURRENT_SCHEMA_VERSION) {
+      await this.saveData(result.data);
+    }
+
+    return result;
+  }
+
+  /**
+   * Rebuild the data file from the newest readable copy plus the journal
+   */
+  async recover(): Promise<TrackingData> {
+    const data = await this.loadData({ forWrite: true });
+    await this.saveData(data);
+    return data;
+  }
+
+  /**
+   * Read tracking data as stored. A corrupt data file is skipped for the newest
+   * readable backup; null means there is nothing on disk and the journal is the
+   * only source left. Before a write (`forWrite`) the corrupt file is moved
+   * aside so the save never overwrites it; readers like `status` leave it be.
+   */
+  private async readStoredData({ forWrite = false }: { forWrite?: boolean } = {}): Promise<StoredTrackingData | null> {
     // Data file is stored outside project (in home directory)
     const dataPath = this.config.dataFile;
-    const dataDir = dirname(dataPath);
+    await this.ensureDataDir();
 
-    // Create directory if it doesn't exist
-    if (!existsSync(dataDir)) {
-      await mkdir(dataDir, { recursive: true });
+    let corrupt = false;
+    if (existsSync(dataPath)) {
+      try {
+        return parseStoredData(await readFile(dataPath, 'utf-8'));
+      } catch (error) {
+        corrupt = true;
+        if (forWrite) {
+          const corruptPath = `${dataPath}.corrupt-${Date.now()}`;
+          console.warn(`Tracking data is unreadable, moved to ${corruptPath}:`, error);
+          await rename(dataPath, corruptPath);
+        } else {
+          console.warn('Tracking data is unreadable, reading backups instead:', error);
+        }
+      }
     }
 
-    // Load existing data or return default
-    if (existsSync(dataPath)) {
+    for (let index = 1; index <= this.config.backupCount; index++) {
+      const backupPath = this.getBackupPath(index);
+      if (!existsSync(backupPath)) {
+        continue;
+      }
+
       try {
-        const content = await readFile(dataPath, 'utf-8');
-        return JSON.parse(content);
+        const backup = parseStoredData(await readFile(backupPath, 'utf-8'));
+        console.warn(`Recovered tracking data from backup ${backupPath}`);
+        return backup;
       } catch (error) {
-        console.warn('Error reading tracking data, starting fresh:', error);
+        console.warn(`Backup ${backupPath} is unreadable, trying older ones:`, error);
       }
     }
 
-    return {
-      sessions: [],
-      totalSeconds: 0,
-      firstTracked: null,
-      lastTracked: null,
-    };
+    if (corrupt) {
+      console.warn('No readable tracking data found, rebuilding from the journal');
+    }
+    return null;
   }
 
   /**
-   * Save tracking data to file
+   * Add journaled sessions missing from the data (lost to a crash or torn write)
+   */
+  private async replayJournal(data: TrackingData): Promise<TrackingData> {
+    const journalPath = this.getJournalPath();
+    if (!existsSync(journalPath)) {
+      return data;
+    }
+
+    return replayJournal(data, await readFile(journalPath, 'utf-8'));
+  }
+
+  /**
+   * Save tracking data atomically, rotating the previous file into the backup set
    */
   private async saveData(data: TrackingData): Promise<void> {
     // Data file is stored outside project (in home directory)
     const dataPath = this.config.dataFile;
-    const dataDir = dirname(dataPath);
+    await this.ensureDataDir();
+
+    if (this.config.backupCount > 0 && existsSync(dataPath)) {
+      for (let index = this.config.backupCount - 1; index >= 1; index--) {
+        const backupPath = this.getBackupPath(index);
+        if (existsSync(backupPath)) {
+          await rename(backupPath, this.getBackupPath(index + 1));
+        }
+      }
+      await copyFile(dataPath, this.getBackupPath(1));
+    }
+
+    const versioned: TrackingData = { ...data, schemaVersion: CURRENT_SCHEMA_VERSION };
+    await writeFileAtomic(dataPath, JSON.stringify(versioned, null, 2));
+    await this.compactJournal(versioned);
+  }
+
+  /**
+   * Drop journal events for sessions the data file now holds, so the journal
+   * only covers what a crash could still lose instead of growing forever
+   */
+  private async compactJournal(data: TrackingData): Promise<void> {
+    const journalPath = this.getJournalPath();
+    if (!existsSync(journalPath)) {
+      return;
+    }
+
+    const saved = new Set(data.sessions.map((session) => session.startTime));
+    const pending = (await readFile(journalPath, 'utf-8')).split('\n').filter((line) => {
+      try {
+        const event: JournalEvent = JSON.parse(line);
+        return !saved.has(event.session.startTime);
+      } catch {
+        // Blank and torn lines
+        return false;
+      }
+    });
 
-    // Create directory if it doesn't exist
+    await writeFileAtomic(journalPath, pending.map((line) => `${line}\n`).join(''));
+  }
+
+  /**
+   * Append an event to the journal (one JSON object per line)
+   */
+  private async appendJournal(type: JournalEvent['type'], session: TrackingSession): Promise<void> {
+    // Serialize now: the open session keeps changing while the append is pending
+    const event: JournalEvent = { type, at: new Date().toISOString(), session };
+    const line = `${JSON.stringify(event)}\n`;
+
+    try {
+      await this.ensureDataDir();
+      await appendFile(this.getJournalPath(), line, 'utf-8');
+    } catch (error) {
+      console.warn('Could not append to tracking journal:', error);
+    }
+  }
+
+  /**
+   * Create the data directory if it doesn't exist
+   */
+  private async ensureDataDir(): Promise<void> {
+    const dataDir = dirname(this.config.dataFile);
     if (!existsSync(dataDir)) {
       await mkdir(dataDir, { recursive: true });
     }
+  }
+
+  private getBackupPath(index: number): string {
+    return `${this.config.dataFile}.${index}.bak`;
+  }
 
-    await writeFile(dataPath, JSON.stringify(data, null, 2), 'utf-8');
+  private getJournalPath(): string {
+    return join(dirname(this.config.dataFile), JOURNAL_FILE);
   }
 
   /**
-   * Format duration in seconds to human-readable string
+   * Get the data file path (directory also holds the PID, journal and live session files)
    */
-  private formatDuration(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-
-    if (hours > 0) {
-      return `${hours}h ${minutes}m ${secs}s`;
-    } else if (minutes > 0) {
-      return `${minutes}m ${secs}s`;
-    } else {
-      return `${secs}s`;
+  getDataFilePath(): string {
+    return this.config.dataFile;
+  }
+
+  /**
+   * Path of the snapshot file exposing the open session to other processes
+   */
+  private getLiveSessionPath(): string {
+    return join(dirname(this.config.dataFile), 'session.json');
+  }
+
+  /**
+   * Publish the open session so `status` can read it from another process
+   */
+  private writeLiveSession(): Promise<void> {
+    return this.queueLiveSnapshot(async () => {
+      // Skipped when the session ended while this write waited its turn
+      if (!this.currentSession) {
+        return;
+      }
+
+      const snapshot: LiveSessionSnapshot = { pid: process.pid, session: this.currentSession };
+      try {
+        await writeFileAtomic(this.getLiveSessionPath(), JSON.stringify(snapshot, null, 2));
+      } catch (error) {
+        console.warn('Could not write live session snapshot:', error);
+      }
+    });
+  }
+
+  /**
+   * Remove the live session snapshot once the session is persisted
+   */
+  private clearLiveSession(): Promise<void> {
+    return this.queueLiveSnapshot(() => rm(this.getLiveSessionPath(), { force: true }));
+  }
+
+  /**
+   * Run a snapshot write or removal after the ones already queued, so a write
+   * still in flight when the session ends can't land after its removal
+   */
+  private queueLiveSnapshot(operation: () => Promise<void>): Promise<void> {
+    const result = this.liveSnapshotQueue.then(operation);
+    this.liveSnapshotQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read the live session snapshot, whichever process wrote it
+   */
+  private async readLiveSnapshot(): Promise<LiveSessionSnapshot | null> {
+    const sessionPath = this.getLiveSessionPath();
+    if (!existsSync(sessionPath)) {
+      return null;
     }
+
+    try {
+      return JSON.parse(await readFile(sessionPath, 'utf-8'));
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Read the open session of a running tracker (ignores snapshots left by dead processes)
+   */
+  private async readLiveSession(): Promise<TrackingSession | null> {
+    const snapshot = await this.readLiveSnapshot();
+    return snapshot && isProcessAlive(snapshot.pid) ? snapshot.session : null;
+  }
+
+  /**
+   * Save the open session of a tracker that was killed without closing it,
+   * ending it at its last recorded activity
+   */
+  private async recoverOrphanedSession(): Promise<void> {
+    const snapshot = await this.readLiveSnapshot();
+    if (!snapshot || snapshot.pid === process.pid || isProcessAlive(snapshot.pid)) {
+      return;
+    }
+
+    const { session } = snapshot;
+    if (typeof session.activeSeconds === 'number' && typeof session.wallSeconds === 'number') {
+      const endTime = new Date(Date.parse(session.startTime) + session.wallSeconds * 1000);
+      await this.persistSession({ ...session, endTime: endTime.toISOString() });
+      console.log(`Recovered session interrupted at ${endTime.toLocaleString()}`);
+    }
+
+    await this.clearLiveSession();
   }
 
   /**
    * Get current statistics (for external access)
    */
-  async getStats(): Promise<TrackingData> {
+  async getStats(): Promise<TrackerStats> {
     const data = await this.loadData();
-    
-    // If there's an active session, calculate its duration too
-    if (this.currentSession) {
-      const now = new Date();
-      const sessionStart = new Date(this.currentSession.startTime);
-      const currentDuration = Math.floor((now.getTime() - sessionStart.getTime()) / 1000);
-      
-      // Return stats including current session
+    const currentSession = this.currentSession ?? (await this.readLiveSession());
+
+    // If there's an active session, include the time credited to it so far
+    if (currentSession) {
       return {
         ...data,
-        totalSeconds: data.totalSeconds + currentDuration,
+        totalSeconds: data.totalSeconds + currentSession.activeSeconds,
+        currentSession: { ...currentSession },
       };
     }
 
-    return data;
+    return { ...data, currentSession: null };
   }
 }
-
@@ -0,0 +1,9 @@
+import type { APIRoute } from 'astro';
+import { getMediaManifest } from '../lib/media/collections';
+
+// The probed media manifest as a static file, for tooling and client code
+export const GET: APIRoute = async () => {
+	return new Response(JSON.stringify(await getMediaManifest(), null, 2), {
+		headers: { 'Content-Type': 'application/json' }
+	});
+};
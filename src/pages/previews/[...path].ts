@@ -0,0 +1,24 @@
+import type { APIRoute } from 'astro';
+import { getMediaManifest } from '../../lib/media/collections';
+import { renderPreview, resolvePublicPath } from '../../lib/media/probe';
+
+const PREFIX = '/previews/';
+
+// Small WebP renditions the memory spheres show while orbs drift (MediaInfo.preview)
+export async function getStaticPaths() {
+	const { items } = await getMediaManifest();
+	return Object.values(items).flatMap((info) => {
+		const source = info.type === 'video' ? info.poster : info.src;
+		if (!info.preview?.startsWith(PREFIX) || !source) return [];
+		return [{ params: { path: info.preview.slice(PREFIX.length) }, props: { source } }];
+	});
+}
+
+export const GET: APIRoute = async ({ props }) => {
+	const path = resolvePublicPath(props['source'] as string, import.meta.env.MEDIA_PUBLIC_DIR);
+	const image = path ? await renderPreview(path) : null;
+	if (!image) return new Response(null, { status: 404 });
+	return new Response(new Uint8Array(image), {
+		headers: { 'Content-Type': 'image/webp' }
+	});
+};
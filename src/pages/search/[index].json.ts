@@ -0,0 +1,13 @@
+import type { APIRoute } from 'astro';
+import { SEARCH_INDEX_NAMES, getSearchIndex, type SearchIndexName } from '../../lib/search/collections';
+
+// One static search index per collection plus /search/all.json, for GhostSearch
+export function getStaticPaths() {
+	return SEARCH_INDEX_NAMES.map((index) => ({ params: { index } }));
+}
+
+export const GET: APIRoute = async ({ params }) => {
+	return new Response(JSON.stringify(await getSearchIndex(params['index'] as SearchIndexName)), {
+		headers: { 'Content-Type': 'application/json' }
+	});
+};
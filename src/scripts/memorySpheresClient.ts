@@ -1,5 +1,10 @@
-import { SphereSystem, type SphereBody } from '../lib/memories/physics';
+import { MemoryLightbox } from '../lib/memories/lightbox';
+import { FIXED_STEP_MS, SphereSystem, type ClusterCenter, type SphereBody } from '../lib/memories/physics';
 import type { MemoryMediaItem } from '../lib/memories/media';
+import { resolveRandom, type RandomSource } from '../lib/memories/random';
+import type { OrbShaderConfig } from '../lib/memories/shaderPresets';
+import { DomRenderer } from '../lib/memories/domRenderer';
+import type { PointerPoint, SphereRenderer, SphereRendererOptions } from '../lib/memories/sphereRenderer';
 import { ThreeRenderer } from '../lib/memories/threeRenderer';
 
 interface InitialPosition {
@@ -9,11 +14,31 @@ interface InitialPosition {
 }
 
 const pageSelector = '.memory-spheres-page';
-const sphereSystem = new SphereSystem();
-
-let renderer: ThreeRenderer | null = null;
+// Cursor pushes orbs within this radius (px); strength is px/tick at the cursor
+const HOVER_REPULSION_RADIUS = 160;
+const HOVER_REPULSION_STRENGTH = 0.12;
+// Share links: #memory-<media id> names the centered orb
+const HASH_PREFIX = '#memory-';
+const DEFAULT_OVERLAY = '/media/JN-000-OrbMedia_high.webp';
+// Idle mode: nothing centered and no input for a while, so redraw at a low frame rate
+const IDLE_AFTER_MS = 5000;
+const IDLE_FRAME_MS = 1000 / 15;
+let sphereSystem = new SphereSystem();
+const reducedMotionQuery = window.matchMedia('(prefers-reduced-motion: reduce)');
+
+let renderer: SphereRenderer | null = null;
+let lightbox: MemoryLightbox | null = null;
 let animationFrameId: number | null = null;
+let lastFrameTime: number | null = null;
+let hoverPoint: PointerPoint | null = null;
 let centerIdx: number | null = null;
+let spheresReady = false;
+let lastInputTime = 0;
+let pageVisible = !document.hidden;
+// Paused from the lightbox: coming back to the page must not restart it
+let videoPausedByViewer = false;
+let rootOnScreen = true;
+let visibilityObserver: IntersectionObserver | null = null;
 let mediaItems: MemoryMediaItem[] = [];
 let initialPositions: InitialPosition[] = [];
 
@@ -75,19 +100,54 @@ const stopAnimation = () => {
 		cancelAnimationFrame(animationFrameId);
 		animationFrameId = null;
 	}
+	lastFrameTime = null;
 };
 
 const destroy = () => {
 	stopAnimation();
+	visibilityObserver?.disconnect();
+	visibilityObserver = null;
+	rootOnScreen = true;
 	renderer?.destroy();
 	renderer = null;
+	lightbox?.destroy();
+	lightbox = null;
+	spheresReady = false;
 	centerIdx = null;
+	videoPausedByViewer = false;
+	hoverPoint = null;
+};
+
+const markActive = () => {
+	lastInputTime = performance.now();
 };
 
-const animate = () => {
+const isIdle = (time: number): boolean => centerIdx === null && time - lastInputTime > IDLE_AFTER_MS;
+
+const animate = (time: number) => {
+	// Idle orbs keep drifting, but are only redrawn a few times per second
+	if (lastFrameTime !== null && isIdle(time) && time - lastFrameTime < IDLE_FRAME_MS) {
+		animationFrameId = requestAnimationFrame(animate);
+		return;
+	}
+
+	// Physics advances by wall-clock time, so orbs move at the same speed at any refresh rate
+	const dt = lastFrameTime === null ? FIXED_STEP_MS : time - lastFrameTime;
+	lastFrameTime = time;
+
 	sphereSystem.updateViewport(getViewport());
-	const bodies = sphereSystem.step();
-	renderer?.update(bodies, centerIdx);
+	if (hoverPoint && !reducedMotionQuery.matches) {
+		// Scaled by frame time so the push feels the same at any refresh rate
+		const frames = Math.min(dt / FIXED_STEP_MS, 4);
+		sphereSystem.applyRadialImpulse(
+			hoverPoint.x,
+			hoverPoint.y,
+			HOVER_REPULSION_RADIUS,
+			HOVER_REPULSION_STRENGTH * frames
+		);
+	}
+	sphereSystem.step(dt);
+	renderer?.update(sphereSystem.getRenderBodies(), centerIdx);
 	animationFrameId = requestAnimationFrame(animate);
 };
 
@@ -96,28 +156,190 @@ const startAnimation = () => {
 	animationFrameId = requestAnimationFrame(animate);
 };
 
+// Run the loop and media only while the tab is visible and the orbs are on screen
+const syncLoopWithVisibility = () => {
+	if (!spheresReady) return;
+
+	const visible = pageVisible && rootOnScreen;
+	renderer?.setMediaPaused(!visible);
+	// Resuming restarts every video, including the one the viewer paused
+	if (visible && videoPausedByViewer && centerIdx !== null) {
+		renderer?.getVideo(centerIdx)?.pause();
+	}
+	if (!visible) {
+		stopAnimation();
+	} else if (animationFrameId === null) {
+		startAnimation();
+	}
+};
+
+const describeSphere = (index: number): string => {
+	const item = mediaItems.at(index);
+	return item?.caption || item?.alt || `Memory ${index + 1}`;
+};
+
+// Polite live region in the layout, read by screen readers
+const announce = (message: string) => {
+	const region = document.querySelector<HTMLElement>('[data-orb-announcer]');
+	if (region) region.textContent = message;
+};
+
+const showLightbox = (index: number) => {
+	const item = mediaItems.at(index);
+	if (item) lightbox?.show(item, index, mediaItems.length, renderer?.getVideo(index) ?? null);
+};
+
 const centerSphere = (index: number) => {
+	markActive();
 	centerIdx = index;
+	videoPausedByViewer = false;
 	sphereSystem.centerBody(index);
 	renderer?.setCenter(index);
+	showLightbox(index);
 	document.querySelector(pageSelector)?.classList.add('has-centered-sphere');
+	announce(`Showing ${describeSphere(index)}. Press Escape to return it.`);
 };
 
 const releaseCenterSphere = () => {
 	if (centerIdx === null) return;
+	markActive(); // full frame rate while it floats back
+	const released = centerIdx;
 	sphereSystem.releaseBody(centerIdx);
 	renderer?.clearCenter(centerIdx);
 	centerIdx = null;
+	lightbox?.hide();
 	document.querySelector(pageSelector)?.classList.remove('has-centered-sphere');
+	announce(`${describeSphere(released)} returned to the others.`);
 };
 
-const convertToBodies = (viewport: { width: number; height: number }): SphereBody[] => {
+const sphereIndexFromHash = (hash: string): number | null => {
+	if (!hash.startsWith(HASH_PREFIX)) return null;
+	const id = decodeURIComponent(hash.slice(HASH_PREFIX.length));
+	const index = mediaItems.findIndex((item) => item.id === id);
+	return index >= 0 ? index : null;
+};
+
+// One history entry per user action, so back/forward steps through centered orbs
+const pushCenterToHistory = () => {
+	const item = centerIdx === null ? undefined : mediaItems.at(centerIdx);
+	const fragment = item ? `${HASH_PREFIX}${encodeURIComponent(item.id)}` : '';
+	if (location.hash === fragment) return;
+	history.pushState(history.state, '', `${location.pathname}${location.search}${fragment}`);
+};
+
+// Center (or release) whatever the hash names: shared link, back/forward, edited URL
+const applyHash = () => {
+	if (!spheresReady) return;
+	const index = sphereIndexFromHash(location.hash);
+	if (index === centerIdx) return;
+	releaseCenterSphere();
+	if (index !== null) centerSphere(index);
+};
+
+// Click behaviour: the centered orb goes back, any other orb takes its place
+const toggleSphere = (index: number) => {
+	const wasCentered = centerIdx === index;
+	releaseCenterSphere();
+	if (!wasCentered) centerSphere(index);
+	pushCenterToHistory();
+};
+
+// Lightbox next/previous: walk the manifest in order, wrapping at the ends
+const stepSphere = (delta: number) => {
+	if (centerIdx === null || !mediaItems.length) return;
+	const next = (centerIdx + delta + mediaItems.length) % mediaItems.length;
+	releaseCenterSphere();
+	centerSphere(next);
+	pushCenterToHistory();
+};
+
+const applyMotionPreference = () => {
+	sphereSystem.setDriftEnabled(!reducedMotionQuery.matches);
+};
+
+/**
+ * Keyboard layer over the hidden orb list: one tab stop (roving tabindex),
+ * arrows/Home/End move between orbs, Enter centers, Escape (document-wide) releases
+ */
+const setupOrbList = (page: HTMLElement) => {
+	const list = page.querySelector<HTMLElement>('[data-orb-list]');
+	if (!list) return;
+
+	const buttons = Array.from(list.querySelectorAll<HTMLButtonElement>('[data-orb-index]'));
+	// Orbs beyond the viewport limit have no body to center
+	buttons.forEach((button, index) => {
+		button.closest('li')?.toggleAttribute('hidden', index >= mediaItems.length);
+	});
+	const count = Math.min(buttons.length, mediaItems.length);
+
+	const focusOrb = (index: number) => {
+		const next = (index + count) % count;
+		buttons.forEach((button, i) => {
+			button.tabIndex = i === next ? 0 : -1;
+		});
+		buttons.at(next)?.focus();
+		announce(`Memory ${next + 1} of ${count}`);
+	};
+
+	const indexOf = (target: EventTarget | null): number | null => {
+		const value = (target as HTMLElement | null)?.dataset?.['orbIndex'];
+		return value === undefined ? null : Number(value);
+	};
+
+	list.addEventListener('keydown', (event) => {
+		const index = indexOf(event.target);
+		if (index === null || count === 0) return;
+
+		switch (event.key) {
+			case 'ArrowRight':
+			case 'ArrowDown':
+				focusOrb(index + 1);
+				break;
+			case 'ArrowLeft':
+			case 'ArrowUp':
+				focusOrb(index - 1);
+				break;
+			case 'Home':
+				focusOrb(0);
+				break;
+			case 'End':
+				focusOrb(count - 1);
+				break;
+			case 'Enter':
+				if (centerIdx !== index) {
+					releaseCenterSphere();
+					centerSphere(index);
+					pushCenterToHistory();
+				}
+				break;
+			default:
+				return;
+		}
+		event.preventDefault();
+	});
+
+	// Space, or tapping the visible caption pill
+	list.addEventListener('click', (event) => {
+		const index = indexOf(event.target);
+		if (index !== null) toggleSphere(index);
+	});
+};
+
+const handleKeydown = (event: KeyboardEvent) => {
+	markActive();
+	if (event.key === 'Escape' && centerIdx !== null) {
+		releaseCenterSphere();
+		pushCenterToHistory();
+	}
+};
+
+const convertToBodies = (viewport: { width: number; height: number }, random: RandomSource): SphereBody[] => {
 	const sizeScale = getSizeScale(viewport.width);
-	return mediaItems.map((_, index) => {
+	return mediaItems.map((item, index) => {
 		const source = initialPositions[index] || {
-			startX: Math.random() * 70 + 15,
-			startY: Math.random() * 70 + 15,
-			size: 180 + Math.random() * 110
+			startX: random() * 70 + 15,
+			startY: random() * 70 + 15,
+			size: 180 + random() * 110
 		};
 		const x = (source.startX / 100) * viewport.width;
 		const y = (source.startY / 100) * viewport.height;
@@ -127,8 +349,8 @@ const convertToBodies = (viewport: { width: number; height: number }): SphereBod
 			id: index,
 			x,
 			y,
-			vx: (Math.random() - 0.5) * 6,
-			vy: (Math.random() - 0.5) * 6,
+			vx: (random() - 0.5) * 6,
+			vy: (random() - 0.5) * 6,
 			ax: 0,
 			ay: 0,
 			radius,
@@ -139,13 +361,15 @@ const convertToBodies = (viewport: { width: number; height: number }): SphereBod
 			isCentered: false,
 			z: 0,
 			targetZ: 0,
-			driftAngle: Math.random() * Math.PI * 2,
-			driftSpeed: 0.2 + Math.random() * 0.3
+			driftAngle: random() * Math.PI * 2,
+			driftSpeed: 0.2 + random() * 0.3,
+			cluster: item.cluster
 		};
 	});
 };
 
 const handleResize = () => {
+	markActive();
 	const viewport = getViewport();
 	const sizeScale = getSizeScale(viewport.width);
 	sphereSystem.updateViewport(viewport);
@@ -181,6 +405,21 @@ const handleResize = () => {
 	renderer?.resize(viewport);
 };
 
+// WebGL when the browser can create a context, plain DOM orbs otherwise
+const createRenderer = (options: SphereRendererOptions, shader: OrbShaderConfig): SphereRenderer => {
+	const overlay = shader.overlay ?? DEFAULT_OVERLAY;
+	try {
+		return new ThreeRenderer({
+			...options,
+			shader,
+			overlayTexture: resolveMediaSrc(overlay) ?? overlay
+		});
+	} catch (error) {
+		console.warn('⚠️ WebGL unavailable, falling back to DOM orbs', error);
+		return new DomRenderer(options);
+	}
+};
+
 const initSpheres = async () => {
 	destroy();
 
@@ -214,40 +453,96 @@ const initSpheres = async () => {
 
 	if (!container) return;
 
-	const bodies = convertToBodies(viewport);
+	// Seeded pages (layoutConfig.orbSeed) replay the same bodies and drift
+	const random = resolveRandom(page.dataset['seed']);
+	sphereSystem = new SphereSystem({ random });
+	applyMotionPreference();
+	// Constellation page: each entry's orbs drift around their own centre
+	try {
+		sphereSystem.setClusterCenters(JSON.parse(page.dataset['clusters'] || '[]') as ClusterCenter[]);
+	} catch {
+		// Malformed attribute: orbs drift freely
+	}
+	const bodies = convertToBodies(viewport, random);
 	sphereSystem.setBodies(bodies, viewport);
 
-	renderer = new ThreeRenderer({
+	// Shader preset and colours from layoutConfig.orbShader (validated at build time)
+	let shader: OrbShaderConfig = {};
+	try {
+		shader = JSON.parse(page.dataset['shader'] || '{}') as OrbShaderConfig;
+	} catch {
+		// Malformed attribute: keep the default preset
+	}
+
+	renderer = createRenderer({
 		container,
-		overlayTexture: resolveMediaSrc('/media/JN-000-OrbMedia_high.webp') ?? '/media/JN-000-OrbMedia_high.webp',
-		onSelect: (idx) => {
-			// If clicking the currently centered orb, release it
-			if (centerIdx === idx) {
-				releaseCenterSphere();
-			}
-			// If clicking a different orb while one is centered, switch to the new one
-			else if (centerIdx !== null && centerIdx !== idx) {
-				releaseCenterSphere();
-				centerSphere(idx);
-			}
-			// If no orb is centered, center the clicked one
-			else {
-				centerSphere(idx);
-			}
+		onSelect: toggleSphere,
+		onGrab: (idx, point) => {
+			markActive();
+			if (!sphereSystem.grabBody(idx)) return false;
+			sphereSystem.dragBodyTo(idx, point.x, point.y, point.time);
+			return true;
+		},
+		onDrag: (idx, point) => {
+			markActive();
+			sphereSystem.dragBodyTo(idx, point.x, point.y, point.time);
+		},
+		onRelease: (idx, point) => {
+			markActive();
+			sphereSystem.dragBodyTo(idx, point.x, point.y, point.time);
+			sphereSystem.throwBody(idx);
+		},
+		onHover: (point) => {
+			if (point) markActive();
+			hoverPoint = point;
+		},
+		// Full-resolution media streams in after centering; video controls need its element
+		onMediaReady: (idx) => {
+			if (idx === centerIdx) showLightbox(idx);
 		}
-	});
+	}, shader);
 
 	await renderer.init(mediaItems, bodies);
+	setupOrbList(page);
+
+	const lightboxRoot = page.querySelector<HTMLElement>('[data-orb-lightbox]');
+	if (lightboxRoot) {
+		lightbox = new MemoryLightbox({
+			root: lightboxRoot,
+			onPrevious: () => stepSphere(-1),
+			onNext: () => stepSphere(1),
+			onClose: () => {
+				releaseCenterSphere();
+				pushCenterToHistory();
+			},
+			onPlaybackToggle: (paused) => {
+				videoPausedByViewer = paused;
+			}
+		});
+	}
 
 	// Click background to deselect
 	container.addEventListener('click', (e) => {
 		// Only if clicking the container itself (not a child/orb)
 		if (e.target === container && centerIdx !== null) {
 			releaseCenterSphere();
+			pushCenterToHistory();
 		}
 	});
 
-	startAnimation();
+	// Opened from a share link: center that orb now that its texture exists
+	spheresReady = true;
+	applyHash();
+
+	// Pause while scrolled away (the tab's own visibility is tracked below)
+	visibilityObserver = new IntersectionObserver((entries) => {
+		rootOnScreen = entries.some((entry) => entry.isIntersecting);
+		syncLoopWithVisibility();
+	});
+	visibilityObserver.observe(container);
+
+	markActive();
+	syncLoopWithVisibility();
 };
 
 if (document.readyState === 'loading') {
@@ -261,4 +556,11 @@ document.addEventListener('astro:page-load', () => {
 });
 document.addEventListener('astro:before-swap', destroy);
 window.addEventListener('resize', handleResize);
+document.addEventListener('keydown', handleKeydown);
+document.addEventListener('visibilitychange', () => {
+	pageVisible = !document.hidden;
+	syncLoopWithVisibility();
+});
+window.addEventListener('hashchange', applyHash);
+reducedMotionQuery.addEventListener('change', applyMotionPreference);
 window.addEventListener('beforeunload', destroy);
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { decodeBlurhash, encodeBlurhash, isBlurhash } from '../../src/lib/media/blurhash';
+
+function solid(width: number, height: number, [r, g, b]: [number, number, number]) {
+	const pixels = new Uint8Array(width * height * 4);
+	for (let offset = 0; offset < pixels.length; offset += 4) {
+		pixels.set([r, g, b, 255], offset);
+	}
+	return pixels;
+}
+
+describe('blurhash', () => {
+	it('encodes to the length its component count implies', () => {
+		const hash = encodeBlurhash(solid(8, 6, [200, 40, 90]), 8, 6, 4, 3);
+
+		expect(hash).toHaveLength(4 + 2 * 4 * 3);
+		expect(isBlurhash(hash)).toBe(true);
+	});
+
+	it('round-trips a solid colour through the average (DC) component', () => {
+		const hash = encodeBlurhash(solid(8, 8, [30, 144, 255]), 8, 8, 1, 1);
+		const pixels = decodeBlurhash(hash, 4, 4);
+
+		expect(pixels).toHaveLength(4 * 4 * 4);
+		for (let offset = 0; offset < pixels.length; offset += 4) {
+			expect(Array.from(pixels.slice(offset, offset + 4))).toEqual([30, 144, 255, 255]);
+		}
+	});
+
+	it('rejects malformed hashes', () => {
+		expect(isBlurhash('')).toBe(false);
+		expect(isBlurhash('LEHV6nWB2yk8pyo0adR*.7kCMdnj!')).toBe(false);
+		expect(isBlurhash('LEHV6nWB2yk8pyo0adR*.7kCMdnj')).toBe(true);
+		expect(() => decodeBlurhash('nope', 4, 4)).toThrow('Invalid blurhash');
+	});
+
+	it('refuses pixel buffers that do not match the size', () => {
+		expect(() => encodeBlurhash(new Uint8Array(12), 2, 2)).toThrow('Expected 16 RGBA bytes');
+	});
+});
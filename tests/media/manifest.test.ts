@@ -0,0 +1,181 @@
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { isBlurhash } from '../../src/lib/media/blurhash';
+import { collectFrontMatterMedia, createMediaLookup, hueFromRgb } from '../../src/lib/media/manifest';
+import { readMp4Info } from '../../src/lib/media/mp4';
+import { buildMediaManifest, renderPreview, resolvePublicPath } from '../../src/lib/media/probe';
+
+function box(type: string, body: Uint8Array): Uint8Array {
+	const bytes = new Uint8Array(8 + body.length);
+	const view = new DataView(bytes.buffer);
+	view.setUint32(0, bytes.length);
+	bytes.set(Array.from(type, (char) => char.charCodeAt(0)), 4);
+	bytes.set(body, 8);
+	return bytes;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+	const bytes = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+	parts.reduce((offset, part) => (bytes.set(part, offset), offset + part.length), 0);
+	return bytes;
+}
+
+// ftyp + moov { mvhd, trak { tkhd } } with a 90° rotation, as phones write portrait clips
+function fakeMp4({ timescale = 1000, duration = 12500, width = 1920, height = 1080, rotated = false } = {}) {
+	const mvhd = new Uint8Array(100);
+	new DataView(mvhd.buffer).setUint32(12, timescale);
+	new DataView(mvhd.buffer).setUint32(16, duration);
+
+	const tkhd = new Uint8Array(84);
+	const track = new DataView(tkhd.buffer);
+	const [a, b, c, d] = rotated ? [0, 65536, -65536, 0] : [65536, 0, 0, 65536];
+	track.setInt32(40, a);
+	track.setInt32(44, b);
+	track.setInt32(52, c);
+	track.setInt32(56, d);
+	track.setUint32(76, width * 65536);
+	track.setUint32(80, height * 65536);
+
+	return concat(
+		box('ftyp', new TextEncoder().encode('isom0000')),
+		box('moov', concat(box('mvhd', mvhd), box('trak', box('tkhd', tkhd))))
+	);
+}
+
+describe('media manifest helpers', () => {
+	it('finds a hue for saturated colours and none for greys', () => {
+		expect(hueFromRgb(255, 0, 0)).toBe(0);
+		expect(hueFromRgb(0, 0, 255)).toBe(240);
+		expect(hueFromRgb(30, 144, 255)).toBe(210);
+		expect(hueFromRgb(128, 128, 128)).toBeUndefined();
+		expect(hueFromRgb(120, 122, 125)).toBeUndefined();
+	});
+
+	it('collects primary media and both gallery fields', () => {
+		const refs = collectFrontMatterMedia({
+			media: { type: 'image', publicUrl: '/media/cover.jpg' },
+			mediaGallery: [{ type: 'video', publicUrl: '/media/clip.mp4' }],
+			additionalMedia: [{ type: 'image', src: { src: '/_astro/photo.hash.jpg', width: 800, height: 600 } }, { type: 'gif' }]
+		});
+
+		expect(refs.map((ref) => ref.publicUrl ?? ref.src)).toEqual([
+			'/media/cover.jpg',
+			'/media/clip.mp4',
+			{ src: '/_astro/photo.hash.jpg', width: 800, height: 600 }
+		]);
+	});
+
+	it('looks media up by the URL pages render', () => {
+		const lookup = createMediaLookup({
+			version: 1,
+			items: { '/media/cover.jpg': { src: '/media/cover.jpg', type: 'image', width: 10, height: 5 } }
+		});
+
+		expect(lookup('/media/cover.jpg')).toMatchObject({ width: 10, height: 5 });
+		expect(lookup('/media/missing.jpg')).toBeUndefined();
+		expect(lookup(undefined)).toBeUndefined();
+	});
+
+	it('keeps lookups inside the public directory', () => {
+		expect(resolvePublicPath('/media/a.jpg', '/site/public')).toBe('/site/public/media/a.jpg');
+		expect(resolvePublicPath('/../secrets.txt', '/site/public')).toBeNull();
+		expect(resolvePublicPath('https://example.com/a.jpg', '/site/public')).toBeNull();
+		expect(resolvePublicPath('//cdn.example.com/a.jpg', '/site/public')).toBeNull();
+	});
+});
+
+describe('mp4 probe', () => {
+	it('reads duration and display size', () => {
+		expect(readMp4Info(fakeMp4())).toEqual({ duration: 12.5, width: 1920, height: 1080 });
+	});
+
+	it('swaps the size of rotated tracks', () => {
+		expect(readMp4Info(fakeMp4({ rotated: true }))).toMatchObject({ width: 1080, height: 1920 });
+	});
+
+	it('gives up on files without a movie header', () => {
+		expect(readMp4Info(box('ftyp', new Uint8Array(8)))).toBeNull();
+		expect(readMp4Info(fakeMp4().slice(0, 40))).toBeNull();
+	});
+});
+
+describe('buildMediaManifest', () => {
+	let publicDir: string;
+
+	beforeAll(async () => {
+		publicDir = mkdtempSync(join(tmpdir(), 'media-manifest-'));
+		mkdirSync(join(publicDir, 'media'));
+		await sharp({ create: { width: 64, height: 32, channels: 3, background: { r: 230, g: 40, b: 120 } } })
+			.png()
+			.toFile(join(publicDir, 'media', 'pink.png'));
+		await sharp({ create: { width: 16, height: 16, channels: 3, background: { r: 20, g: 200, b: 210 } } })
+			.webp()
+			.toFile(join(publicDir, 'media', 'clip.webp'));
+		writeFileSync(join(publicDir, 'media', 'clip.mp4'), fakeMp4({ duration: 3000, width: 720, height: 1280 }));
+	});
+
+	afterAll(() => {
+		rmSync(publicDir, { recursive: true, force: true });
+	});
+
+	it('probes images, videos and their sibling posters once each', async () => {
+		const manifest = await buildMediaManifest(
+			[
+				{ data: { media: { type: 'image', publicUrl: '/media/pink.png' } } },
+				{
+					data: {
+						mediaGallery: [
+							{ type: 'video', publicUrl: '/media/clip.mp4' },
+							{ type: 'image', publicUrl: '/media/pink.png' }
+						]
+					}
+				}
+			],
+			{ publicDir }
+		);
+
+		expect(Object.keys(manifest.items)).toEqual(['/media/pink.png', '/media/clip.mp4']);
+
+		const image = manifest.items['/media/pink.png'];
+		expect(image).toMatchObject({
+			type: 'image',
+			width: 64,
+			height: 32,
+			colorClass: 'sphere-pink',
+			preview: '/previews/media/pink.png.webp'
+		});
+		expect(isBlurhash(image?.blurhash ?? '')).toBe(true);
+
+		expect(manifest.items['/media/clip.mp4']).toMatchObject({
+			type: 'video',
+			duration: 3,
+			width: 720,
+			height: 1280,
+			poster: '/media/clip.webp',
+			colorClass: 'sphere-cyan',
+			preview: '/previews/media/clip.webp.webp'
+		});
+	});
+
+	it('renders previews as small WebP files without upscaling', async () => {
+		const large = join(publicDir, 'media', 'large.png');
+		await sharp({ create: { width: 1024, height: 512, channels: 3, background: { r: 0, g: 0, b: 0 } } })
+			.png()
+			.toFile(large);
+
+		const preview = await sharp((await renderPreview(large)) ?? Buffer.alloc(0)).metadata();
+		expect(preview).toMatchObject({ format: 'webp', width: 256, height: 128 });
+
+		const small = await sharp((await renderPreview(join(publicDir, 'media', 'pink.png'))) ?? Buffer.alloc(0)).metadata();
+		expect(small).toMatchObject({ width: 64, height: 32 });
+	});
+
+	it('records missing files without failing', async () => {
+		const manifest = await buildMediaManifest([{ data: { media: { publicUrl: '/media/gone.mp4' } } }], { publicDir });
+
+		expect(manifest.items['/media/gone.mp4']).toEqual({ src: '/media/gone.mp4', type: 'video' });
+	});
+});
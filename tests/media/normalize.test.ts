@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaInfo } from '../../src/lib/media/manifest';
+import { normalizeEntryMedia } from '../../src/lib/media/normalize';
+
+describe('normalizeEntryMedia', () => {
+	it('merges primary media with both gallery fields', () => {
+		const items = normalizeEntryMedia({
+			title: 'Dunes',
+			media: { type: 'image', publicUrl: '/media/cover.jpg' },
+			mediaGallery: [{ type: 'video', publicUrl: '/media/old-clip.mp4' }],
+			additionalMedia: [{ type: 'gif', publicUrl: '/media/loop.gif' }]
+		});
+
+		expect(items.map((item) => item.src)).toEqual(['/media/cover.jpg', '/media/loop.gif', '/media/old-clip.mp4']);
+		expect(items.map((item) => item.primary)).toEqual([true, false, false]);
+	});
+
+	it('lists a file named in both gallery fields once, as its additionalMedia item', () => {
+		const items = normalizeEntryMedia({
+			title: 'Dunes',
+			mediaGallery: [{ type: 'image', publicUrl: '/media/camp.jpg', caption: 'Old caption' }],
+			additionalMedia: [{ type: 'image', publicUrl: '/media/camp.jpg', caption: 'Camp at dusk' }]
+		});
+
+		expect(items).toHaveLength(1);
+		expect(items[0]?.caption).toBe('Camp at dusk');
+	});
+
+	it('keeps gallery items that show the primary file again', () => {
+		const items = normalizeEntryMedia({
+			title: 'Dunes',
+			media: { type: 'image', publicUrl: '/media/cover.jpg' },
+			additionalMedia: [{ type: 'image', publicUrl: '/media/cover.jpg', caption: 'Cover, in the gallery' }]
+		});
+
+		expect(items.map((item) => [item.src, item.primary, item.caption])).toEqual([
+			['/media/cover.jpg', true, 'Dunes'],
+			['/media/cover.jpg', false, 'Cover, in the gallery']
+		]);
+	});
+
+	it('orders positioned items first and keeps front matter order for the rest', () => {
+		const items = normalizeEntryMedia({
+			title: 'Dunes',
+			media: { type: 'image', publicUrl: '/media/a.jpg' },
+			additionalMedia: [
+				{ type: 'image', publicUrl: '/media/b.jpg', position: 3 },
+				{ type: 'image', publicUrl: '/media/c.jpg' },
+				{ type: 'image', publicUrl: '/media/d.jpg', position: 1, insertAfterH2: 'The crossing' }
+			]
+		});
+
+		expect(items.map((item) => item.src)).toEqual(['/media/d.jpg', '/media/b.jpg', '/media/a.jpg', '/media/c.jpg']);
+		expect(items[0]).toMatchObject({ position: 1, insertAfterH2: 'The crossing' });
+		expect(items[2]).not.toHaveProperty('position');
+	});
+
+	it('keeps front matter order when asked, positions aside', () => {
+		const items = normalizeEntryMedia(
+			{
+				title: 'Dunes',
+				media: { type: 'image', publicUrl: '/media/a.jpg' },
+				additionalMedia: [
+					{ type: 'image', publicUrl: '/media/b.jpg', position: 3 },
+					{ type: 'image', publicUrl: '/media/c.jpg', position: 1 }
+				]
+			},
+			{ frontMatterOrder: true }
+		);
+
+		expect(items.map((item) => item.src)).toEqual(['/media/a.jpg', '/media/b.jpg', '/media/c.jpg']);
+	});
+
+	it('falls back to the entry title for the primary caption only', () => {
+		const [primary, withAlt, bare] = normalizeEntryMedia({
+			title: 'Dunes',
+			media: { type: 'image', publicUrl: '/media/a.jpg' },
+			additionalMedia: [
+				{ type: 'image', publicUrl: '/media/b.jpg', alt: 'Tents' },
+				{ type: 'image', publicUrl: '/media/c.jpg' }
+			]
+		});
+
+		expect(primary?.caption).toBe('Dunes');
+		expect(withAlt?.caption).toBe('Tents');
+		expect(bare?.caption).toBe('');
+	});
+
+	it('keeps imported images for <Image> and skips references without a file', () => {
+		const image = { src: '/_astro/photo.hash.jpg', width: 800, height: 600 };
+		const items = normalizeEntryMedia({
+			title: 'Dunes',
+			media: { type: 'image', src: image },
+			additionalMedia: [{ type: 'image', alt: 'Missing file' }]
+		});
+
+		expect(items).toHaveLength(1);
+		expect(items[0]).toMatchObject({ src: '/_astro/photo.hash.jpg', image });
+	});
+
+	it('fills sizes and posters from the media manifest, keeping a front matter poster', () => {
+		const manifest = new Map<string, MediaInfo>([
+			['/media/a.mp4', { src: '/media/a.mp4', type: 'video', width: 1080, height: 1920, poster: '/media/a.webp' }],
+			['/media/b.mp4', { src: '/media/b.mp4', type: 'video', poster: '/media/b.webp' }]
+		]);
+		const [first, second] = normalizeEntryMedia(
+			{
+				title: 'Dunes',
+				additionalMedia: [
+					{ type: 'video', publicUrl: '/media/a.mp4' },
+					{ type: 'video', publicUrl: '/media/b.mp4', poster: '/media/b-cover.jpg' }
+				]
+			},
+			{ lookupMediaInfo: (src) => manifest.get(src) }
+		);
+
+		expect(first).toMatchObject({ width: 1080, height: 1920, poster: '/media/a.webp' });
+		expect(second?.poster).toBe('/media/b-cover.jpg');
+	});
+});
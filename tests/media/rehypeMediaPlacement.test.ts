@@ -0,0 +1,178 @@
+import { mkdtempSync, mkdirSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import sharp from 'sharp';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import rehypeMediaPlacement, { assertMediaPlacement } from '../../src/lib/rehypeMediaPlacement.mjs';
+import rehypeSectionize from '../../src/lib/rehypeSectionize.mjs';
+
+interface Node {
+	type: string;
+	tagName?: string;
+	value?: string;
+	properties?: { className?: string[]; src?: string; style?: string; [name: string]: unknown };
+	children?: Node[];
+}
+
+const text = (value: string): Node => ({ type: 'text', value });
+const el = (tagName: string, ...children: Node[]): Node => ({ type: 'element', tagName, properties: {}, children });
+
+// Intro, "First" (with an H3), "Second" and "Third", newlines between blocks as remark emits them
+function markdownTree(): Node {
+	const blocks = [
+		el('p', text('Intro')),
+		el('h2', text('First')),
+		el('p', text('One')),
+		el('h3', text('Details')),
+		el('p', text('More')),
+		el('h2', text('Second')),
+		el('p', text('Two')),
+		el('h2', text('Third')),
+		el('p', text('Three'))
+	];
+	return { type: 'root', children: blocks.flatMap((block) => [block, text('\n')]) };
+}
+
+let publicDir: string;
+
+beforeAll(async () => {
+	publicDir = mkdtempSync(join(tmpdir(), 'placement-'));
+	mkdirSync(join(publicDir, 'media'));
+	await sharp({ create: { width: 40, height: 30, channels: 3, background: '#336699' } })
+		.jpeg()
+		.toFile(join(publicDir, 'media', 'cover.jpg'));
+});
+
+afterAll(() => {
+	rmSync(publicDir, { recursive: true, force: true });
+});
+
+async function place(frontmatter: Record<string, unknown>): Promise<{ tree: Node; astro: { localImagePaths?: string[] } }> {
+	const tree = markdownTree();
+	const file: { path: string; data: { astro: { frontmatter: unknown; localImagePaths?: string[] } } } = { path: 'entry.md', data: { astro: { frontmatter } } };
+	rehypeSectionize()(tree, file);
+	await rehypeMediaPlacement({ publicDir })(tree, file);
+	return { tree, astro: file.data.astro };
+}
+
+const isCard = (node: Node) => node.properties?.className?.includes('media-card') ?? false;
+const isSection = (node: Node) => node.properties?.className?.includes('content-section') ?? false;
+
+function headingOf(section: Node): string {
+	const heading = section.children?.find((child) => child.tagName === 'h2' || child.tagName === 'p');
+	return heading?.children?.[0]?.value ?? '';
+}
+
+// Sections by their first heading/paragraph, cards by their src
+function outline(tree: Node): string[] {
+	return (tree.children ?? []).filter((node) => node.type === 'element').map((node) => {
+		if (isCard(node)) return `card ${String(node.children?.[0]?.children?.[0]?.properties?.src)}`;
+		return `section ${headingOf(node)}`;
+	});
+}
+
+describe('rehypeMediaPlacement', () => {
+	it('places cards by heading, position and the every-second-section fallback', async () => {
+		const { tree } = await place({
+			title: 'Dunes',
+			media: { type: 'image', publicUrl: '/media/cover.jpg', insertBeforeH2: 'third' },
+			additionalMedia: [
+				{ type: 'video', publicUrl: '/media/clip.mp4', position: 1 },
+				{ type: 'image', publicUrl: '/media/details.jpg', insertAfterH3: 'Details' },
+				{ type: 'image', publicUrl: '/media/tail-1.jpg' },
+				{ type: 'image', publicUrl: '/media/tail-2.jpg' },
+				{ type: 'image', publicUrl: '/media/tail-3.jpg' }
+			]
+		});
+
+		expect(outline(tree)).toEqual([
+			'section Intro',
+			'card /media/clip.mp4',
+			'section First',
+			'card /media/details.jpg',
+			'card /media/tail-1.jpg',
+			'section Second',
+			'card /media/cover.jpg',
+			'section Third',
+			'card /media/tail-2.jpg',
+			'card /media/tail-3.jpg'
+		]);
+	});
+
+	it('puts inside-top and inside-bottom cards within the section', async () => {
+		const { tree } = await place({
+			title: 'Dunes',
+			additionalMedia: [
+				{ type: 'image', publicUrl: '/media/top.jpg', insertAfterH2: 'Second', insertAt: 'inside-top' },
+				{ type: 'image', publicUrl: '/media/bottom.jpg', insertAfterH2: 'Second', insertAt: 'inside-bottom' }
+			]
+		});
+
+		const second = (tree.children ?? []).filter(isSection)[2];
+		const kinds = second?.children?.filter((child) => child.type === 'element').map((child) => (isCard(child) ? 'card' : child.tagName));
+		expect(kinds).toEqual(['h2', 'card', 'p', 'card']);
+	});
+
+	it('fills in probed sizes and staggers animation delays', async () => {
+		const { tree } = await place({
+			title: 'Dunes',
+			media: { type: 'image', publicUrl: '/media/cover.jpg', insertAfterH2: 'First' }
+		});
+
+		const card = (tree.children ?? []).find(isCard);
+		expect(card?.children?.[0]?.children?.[0]?.properties).toMatchObject({ width: 40, height: 30, alt: 'Dunes media 1' });
+		expect(card?.properties?.style).toBe('animation-delay: 300ms;');
+	});
+
+	it('hands relative images to the Astro image pipeline', async () => {
+		const { astro } = await place({
+			title: 'Dunes',
+			additionalMedia: [{ type: 'image', src: './camp.jpg' }, { type: 'video', src: './clip.mp4' }]
+		});
+
+		expect(astro.localImagePaths).toEqual(['./camp.jpg']);
+	});
+
+	it('throws on a heading the entry does not have', async () => {
+		await expect(
+			place({ title: 'Dunes', media: { type: 'image', publicUrl: '/media/cover.jpg', insertAfterH2: 'Fourth' } })
+		).rejects.toThrow('entry.md: media insertAfterH2 "Fourth" (/media/cover.jpg) does not match any heading in the entry');
+	});
+
+	it('leaves gallery layouts to the page', async () => {
+		const { tree } = await place({
+			title: 'Dunes',
+			layoutConfig: { mediaLayout: 'gallery' },
+			media: { type: 'image', publicUrl: '/media/cover.jpg', insertAfterH2: 'Fourth' }
+		});
+
+		expect((tree.children ?? []).some(isCard)).toBe(false);
+	});
+});
+
+describe('assertMediaPlacement', () => {
+	const headings = [
+		{ depth: 2, slug: 'first', text: 'First' },
+		{ depth: 3, slug: 'details', text: 'Details' }
+	];
+	const entry = (media: Record<string, unknown>, extra: Record<string, unknown> = {}) => ({
+		id: 'dunes.md',
+		collection: 'projects',
+		data: { title: 'Dunes', media: { type: 'image', publicUrl: '/media/cover.jpg', ...media }, ...extra }
+	});
+
+	it('accepts directives matching the rendered headings', () => {
+		expect(() => assertMediaPlacement(entry({ insertAfterH2: ' first ' }), headings)).not.toThrow();
+		expect(() => assertMediaPlacement(entry({ insertBeforeH3: 'Details' }), headings)).not.toThrow();
+	});
+
+	it('fails on a heading at the wrong depth', () => {
+		expect(() => assertMediaPlacement(entry({ insertAfterH2: 'Details' }), headings)).toThrow(
+			'projects/dunes.md: media insertAfterH2 "Details"'
+		);
+	});
+
+	it('skips entries whose page does not place media inline', () => {
+		expect(() => assertMediaPlacement(entry({ insertAfterH2: 'Nope' }, { layoutVariant: 'immersive' }), headings)).not.toThrow();
+	});
+});
@@ -0,0 +1,68 @@
+// @ts-nocheck
+import { describe, expect, it } from 'vitest';
+import { buildConstellation, layoutClusterCenters, scatterInGroup } from '../../src/lib/memories/constellation';
+
+function entry(slug: string, data = {}) {
+	return {
+		slug,
+		data: {
+			title: slug.toUpperCase(),
+			tags: [],
+			media: { type: 'image', publicUrl: `/media/${slug}.jpg` },
+			...data
+		}
+	};
+}
+
+describe('memory constellation', () => {
+	it('merges every entry into one manifest, one cluster per entry', () => {
+		const { groups, media } = buildConstellation([
+			entry('desert', { additionalMedia: [{ type: 'video', publicUrl: '/media/dunes.mp4' }] }),
+			entry('no-media', { media: undefined }),
+			entry('coast')
+		]);
+
+		expect(groups.map((group) => group.slug)).toEqual(['desert', 'coast']);
+		expect(media.map((item) => [item.id, item.cluster])).toEqual([
+			['desert/desert', 0],
+			['desert/dunes', 0],
+			['coast/coast', 1]
+		]);
+		expect(media[2].source).toEqual({ href: '/journey/coast', title: 'COAST' });
+	});
+
+	it('colours groups by life phase, then by first tag', () => {
+		const { groups } = buildConstellation([
+			entry('school', { lifePhase: 'adolescence', tags: ['travel'] }),
+			entry('trip', { tags: ['travel'] }),
+			entry('trip-2', { tags: ['travel', 'family'] }),
+			entry('home', { tags: ['family'] })
+		]);
+
+		expect(groups.map((group) => group.label)).toEqual(['Adolescence', 'travel', 'travel', 'family']);
+		expect(groups[1].hue).toBe(groups[2].hue);
+		expect(groups[3].hue).not.toBe(groups[1].hue);
+	});
+
+	it('spreads cluster centres inside the viewport', () => {
+		expect(layoutClusterCenters(1)).toEqual([{ x: 0.5, y: 0.5 }]);
+
+		const centers = layoutClusterCenters(12);
+		centers.forEach(({ x, y }) => {
+			expect(x).toBeGreaterThan(0.1);
+			expect(x).toBeLessThan(0.9);
+			expect(y).toBeGreaterThan(0.1);
+			expect(y).toBeLessThan(0.9);
+		});
+		const closest = Math.min(
+			...centers.flatMap((a, i) => centers.slice(i + 1).map((b) => Math.hypot(a.x - b.x, a.y - b.y)))
+		);
+		expect(closest).toBeGreaterThan(0.05);
+	});
+
+	it('scatters orbs around their group centre', () => {
+		const group = { x: 0.25, y: 0.75, radius: 0.1 };
+		const { startX, startY } = scatterInGroup(group, () => 0.999);
+		expect(Math.hypot(startX - 25, startY - 75)).toBeLessThanOrEqual(10);
+	});
+});
@@ -0,0 +1,105 @@
+// @ts-nocheck
+import { describe, expect, it, vi } from 'vitest';
+import { DomRenderer } from '../../src/lib/memories/domRenderer';
+
+const items = [
+	{ id: 'dunes', src: '/media/dunes.jpg', type: 'image', hue: 25 },
+	{ id: 'waves', src: '/media/waves.mp4', type: 'video', poster: '/media/waves.jpg' }
+];
+
+const bodies = [
+	{ id: 0, x: 200, y: 150, radius: 50, z: 0 },
+	{ id: 1, x: 500, y: 300, radius: 40, z: 0 }
+];
+
+function pointer(type: string, target: Element, x: number, y: number) {
+	target.dispatchEvent(new MouseEvent(type, { bubbles: true, clientX: x, clientY: y }));
+}
+
+async function createRenderer(options = {}) {
+	document.body.innerHTML = '<div data-orbs-root></div>';
+	const container = document.querySelector<HTMLElement>('[data-orbs-root]');
+	const renderer = new DomRenderer({ container, onSelect: vi.fn(), ...options });
+	await renderer.init(items, bodies);
+	const layer = container.querySelector<HTMLElement>('.dom-orbs');
+	layer.setPointerCapture = vi.fn();
+	layer.hasPointerCapture = vi.fn(() => false);
+	const orb = (id: number) => layer.querySelector<HTMLElement>(`[data-orb-id="${id}"]`);
+	return { container, renderer, layer, orb };
+}
+
+// jsdom has no media playback
+HTMLMediaElement.prototype.play = vi.fn(() => Promise.resolve());
+HTMLMediaElement.prototype.pause = vi.fn();
+
+describe('DomRenderer', () => {
+	it('renders one round element per orb, sized and placed from the bodies', async () => {
+		const { renderer, orb } = await createRenderer();
+		renderer.update(bodies, null);
+
+		expect(orb(0)?.querySelector('img')?.getAttribute('src')).toBe('/media/dunes.jpg');
+		expect(orb(0)?.style.width).toBe('100px');
+		expect(orb(0)?.style.transform).toBe('translate3d(150px, 100px, 0)');
+		expect(orb(1)?.querySelector('video')?.preload).toBe('none');
+	});
+
+	it('sharpens the centered orb and dims the others', async () => {
+		const { renderer, orb } = await createRenderer();
+		renderer.setCenter(1);
+		renderer.update(bodies, 1);
+
+		expect(orb(1)?.style.opacity).toBe('1');
+		expect(orb(0)?.style.opacity).toBe('0.3');
+		expect(renderer.getVideo(1)?.preload).toBe('auto');
+		expect(renderer.getVideo(0)).toBeNull();
+	});
+
+	it('pauses the centered video while media is paused and resumes it after', async () => {
+		const { renderer } = await createRenderer();
+		renderer.setMediaPaused(true);
+		renderer.setCenter(1);
+		const video = renderer.getVideo(1);
+		const play = vi.spyOn(video, 'play');
+		const pause = vi.spyOn(video, 'pause');
+
+		expect(play).not.toHaveBeenCalled();
+		renderer.setMediaPaused(false);
+		expect(play).toHaveBeenCalledTimes(1);
+		renderer.setMediaPaused(true);
+		expect(pause).toHaveBeenCalledTimes(1);
+	});
+
+	it('reports clicks on an orb even after grabbing it', async () => {
+		const onSelect = vi.fn();
+		const onGrab = vi.fn(() => true);
+		const onRelease = vi.fn();
+		const { orb, layer } = await createRenderer({ onSelect, onGrab, onRelease });
+
+		pointer('pointerdown', orb(0), 200, 150);
+		pointer('pointerup', layer, 201, 150);
+		pointer('click', layer, 201, 150);
+
+		expect(onGrab).toHaveBeenCalledWith(0, expect.objectContaining({ x: 200, y: 150 }));
+		expect(onRelease).toHaveBeenCalledWith(0, expect.objectContaining({ x: 201 }));
+		expect(onSelect).toHaveBeenCalledWith(0);
+	});
+
+	it('treats a long press-and-move as a drag, not a click', async () => {
+		const onSelect = vi.fn();
+		const onDrag = vi.fn();
+		const { orb, layer } = await createRenderer({ onSelect, onDrag, onGrab: () => true });
+
+		pointer('pointerdown', orb(0), 200, 150);
+		pointer('pointermove', layer, 260, 150);
+		pointer('click', layer, 260, 150);
+
+		expect(onDrag).toHaveBeenCalledWith(0, expect.objectContaining({ x: 260 }));
+		expect(onSelect).not.toHaveBeenCalled();
+	});
+
+	it('removes its layer on destroy', async () => {
+		const { renderer, container } = await createRenderer();
+		renderer.destroy();
+		expect(container.querySelector('.dom-orbs')).toBeNull();
+	});
+});
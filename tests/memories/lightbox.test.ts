@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from 'vitest';
+import { MemoryLightbox, describeMediaType, formatMediaTime } from '../../src/lib/memories/lightbox';
+
+const markup = `
+	<aside data-orb-lightbox hidden>
+		<p data-lightbox-meta></p>
+		<h2 data-lightbox-caption></h2>
+		<a data-lightbox-source hidden></a>
+		<div data-lightbox-video hidden>
+			<button data-lightbox-play></button>
+			<input type="range" data-lightbox-scrub />
+			<span data-lightbox-time></span>
+		</div>
+		<button data-lightbox-prev></button>
+		<span data-lightbox-position></span>
+		<button data-lightbox-next></button>
+		<button data-lightbox-close></button>
+	</aside>
+`;
+
+function createLightbox() {
+	document.body.innerHTML = markup;
+	const root = document.querySelector<HTMLElement>('[data-orb-lightbox]')!;
+	const callbacks = { onPrevious: vi.fn(), onNext: vi.fn(), onClose: vi.fn(), onPlaybackToggle: vi.fn() };
+	const lightbox = new MemoryLightbox({ root, ...callbacks });
+	const text = (selector: string) => root.querySelector(selector)?.textContent;
+	return { root, lightbox, callbacks, text };
+}
+
+function createVideo(duration: number): HTMLVideoElement {
+	const video = document.createElement('video');
+	Object.defineProperty(video, 'duration', { value: duration });
+	Object.defineProperty(video, 'paused', { value: false, writable: true });
+	video.pause = vi.fn(() => {
+		Object.defineProperty(video, 'paused', { value: true });
+		video.dispatchEvent(new Event('pause'));
+	});
+	return video;
+}
+
+describe('MemoryLightbox', () => {
+	it('formats media types and times', () => {
+		expect(describeMediaType('gif')).toBe('Animated GIF');
+		expect(formatMediaTime(65.4)).toBe('1:05');
+		expect(formatMediaTime(3725)).toBe('1:02:05');
+		expect(formatMediaTime(Number.NaN)).toBe('0:00');
+	});
+
+	it('shows caption, type, dimensions and position for an image', () => {
+		const { root, lightbox, text } = createLightbox();
+		lightbox.show({ id: 'dunes', src: '/media/dunes.jpg', type: 'image', caption: 'Dunes at dusk', width: 1600, height: 900 }, 2, 5);
+
+		expect(root.hidden).toBe(false);
+		expect(text('[data-lightbox-caption]')).toBe('Dunes at dusk');
+		expect(text('[data-lightbox-meta]')).toBe('Photo · 1600 × 900');
+		expect(text('[data-lightbox-position]')).toBe('3 / 5');
+		expect(root.querySelector<HTMLElement>('[data-lightbox-video]')?.hidden).toBe(true);
+
+		lightbox.hide();
+		expect(root.hidden).toBe(true);
+	});
+
+	it('links constellation items back to their journey page', () => {
+		const { root, lightbox } = createLightbox();
+		const link = root.querySelector<HTMLAnchorElement>('[data-lightbox-source]')!;
+		lightbox.show(
+			{ id: 'desert/dunes', src: '/media/dunes.jpg', type: 'image', source: { href: '/journey/desert', title: 'Desert' } },
+			0,
+			3
+		);
+
+		expect(link.hidden).toBe(false);
+		expect(link.getAttribute('href')).toBe('/journey/desert');
+		expect(link.textContent).toBe('From Desert');
+
+		lightbox.show({ id: 'waves', src: '/media/waves.jpg', type: 'image' }, 1, 3);
+		expect(link.hidden).toBe(true);
+	});
+
+	it('drives the centered video from the play and scrub controls', () => {
+		const { root, lightbox, callbacks, text } = createLightbox();
+		const video = createVideo(40);
+		lightbox.show({ id: 'clip', src: '/media/clip.mp4', type: 'video', alt: 'Waves' }, 0, 1, video);
+
+		expect(root.querySelector<HTMLElement>('[data-lightbox-video]')?.hidden).toBe(false);
+		expect(text('[data-lightbox-meta]')).toBe('Video · 0:40');
+		expect(text('[data-lightbox-play]')).toBe('Pause');
+
+		root.querySelector<HTMLButtonElement>('[data-lightbox-play]')?.click();
+		expect(video.pause).toHaveBeenCalled();
+		expect(text('[data-lightbox-play]')).toBe('Play');
+		expect(callbacks.onPlaybackToggle).toHaveBeenCalledWith(true);
+
+		const scrub = root.querySelector<HTMLInputElement>('[data-lightbox-scrub]')!;
+		scrub.value = '500';
+		scrub.dispatchEvent(new Event('input'));
+		expect(video.currentTime).toBe(20);
+		expect(text('[data-lightbox-time]')).toBe('0:20 / 0:40');
+	});
+
+	it('reports navigation clicks and stops listening once destroyed', () => {
+		const { root, lightbox, callbacks } = createLightbox();
+		root.querySelector<HTMLButtonElement>('[data-lightbox-next]')?.click();
+		root.querySelector<HTMLButtonElement>('[data-lightbox-prev]')?.click();
+		root.querySelector<HTMLButtonElement>('[data-lightbox-close]')?.click();
+		expect(callbacks.onNext).toHaveBeenCalledTimes(1);
+		expect(callbacks.onPrevious).toHaveBeenCalledTimes(1);
+		expect(callbacks.onClose).toHaveBeenCalledTimes(1);
+
+		lightbox.destroy();
+		root.querySelector<HTMLButtonElement>('[data-lightbox-next]')?.click();
+		expect(callbacks.onNext).toHaveBeenCalledTimes(1);
+	});
+});
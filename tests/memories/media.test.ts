@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import type { MediaInfo } from '../../src/lib/media/manifest';
+import { assignMediaIds, buildMemoryMedia, mediaIdFromSrc, nearestSphereColor } from '../../src/lib/memories/media';
+
+describe('media ids', () => {
+	it('slugs the file name without extension or query', () => {
+		expect(mediaIdFromSrc('/media/JN-004 Beach.webp')).toBe('jn-004-beach');
+		expect(mediaIdFromSrc('https://cdn.example.com/a/b/Clip_01.MP4?v=2#t=3')).toBe('clip-01');
+		expect(mediaIdFromSrc('/media/')).toBe('memory');
+	});
+
+	it('keeps ids unique and stable in manifest order', () => {
+		const items = assignMediaIds([
+			{ src: '/media/sunset.jpg' },
+			{ src: '/media/other/sunset.png' },
+			{ src: '/media/dunes.jpg' },
+			{ src: '/media/sunset.webp' }
+		]);
+
+		expect(items.map((item) => item.id)).toEqual(['sunset', 'sunset-2', 'dunes', 'sunset-3']);
+		expect(items[2]).toEqual({ src: '/media/dunes.jpg', id: 'dunes' });
+	});
+});
+
+describe('buildMemoryMedia', () => {
+	it('lines orbs up in front matter order, whatever the detail page positions', () => {
+		const items = buildMemoryMedia({
+			data: {
+				title: 'Dunes',
+				media: { type: 'image', publicUrl: '/media/cover.jpg' },
+				additionalMedia: [
+					{ type: 'image', publicUrl: '/media/camp.jpg', position: 2 },
+					{ type: 'image', publicUrl: '/media/cover.jpg', position: 1 }
+				]
+			}
+		});
+
+		expect(items.map((item) => item.id)).toEqual(['cover', 'camp', 'cover-2']);
+	});
+});
+
+describe('media manifest facts', () => {
+	const entry = {
+		data: {
+			title: 'Dunes',
+			media: { type: 'video', publicUrl: '/media/dunes.mp4', poster: '/media/dunes-cover.jpg' },
+			additionalMedia: [{ type: 'image', publicUrl: '/media/camp.jpg' }]
+		}
+	} as unknown as Parameters<typeof buildMemoryMedia>[0];
+
+	const manifest = new Map<string, MediaInfo>([
+		['/media/dunes.mp4', { src: '/media/dunes.mp4', type: 'video', duration: 8, poster: '/media/dunes.webp', hue: 30 }],
+		[
+			'/media/camp.jpg',
+			{
+				src: '/media/camp.jpg',
+				type: 'image',
+				width: 1600,
+				height: 900,
+				blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+				preview: '/previews/media/camp.jpg.webp'
+			}
+		]
+	]);
+
+	it('adds probed sizes, duration, blurhash and preview while keeping a front matter poster', () => {
+		const [video, image] = buildMemoryMedia(entry, (src) => manifest.get(src));
+
+		expect(video).toMatchObject({ duration: 8, hue: 30, poster: '/media/dunes-cover.jpg' });
+		expect(image).toMatchObject({
+			width: 1600,
+			height: 900,
+			blurhash: 'LEHV6nWB2yk8pyo0adR*.7kCMdnj',
+			preview: '/previews/media/camp.jpg.webp'
+		});
+		expect(image).not.toHaveProperty('hue');
+	});
+
+	it('picks the sphere colour nearest around the colour wheel', () => {
+		expect(nearestSphereColor(350).className).toBe('sphere-pink');
+		expect(nearestSphereColor(5).className).toBe('sphere-orange');
+		expect(nearestSphereColor(200).className).toBe('sphere-cyan');
+	});
+});
@@ -1,6 +1,6 @@
 // @ts-nocheck
 import { describe, expect, it } from 'vitest';
-import { SphereSystem, type SphereBody } from '../../src/lib/memories/physics';
+import { FIXED_STEP_MS, SphereSystem, depthForIndex, type SphereBody } from '../../src/lib/memories/physics';
 
 const viewport = { width: 1200, height: 800 };
 
@@ -22,7 +22,8 @@ function createBody(partial: Partial<SphereBody> = {}): SphereBody {
 		z: partial.z ?? 0,
 		targetZ: partial.targetZ ?? 0,
 		driftAngle: partial.driftAngle ?? 0,
-		driftSpeed: partial.driftSpeed ?? 0.5
+		driftSpeed: partial.driftSpeed ?? 0.5,
+		cluster: partial.cluster
 	};
 }
 
@@ -56,4 +57,259 @@ describe('SphereSystem', () => {
 		expect(afterA.x).not.toBe(100);
 		expect(afterB.x).not.toBe(120);
 	});
+
+	it('rests each orb on the depth layer its index gives, front layer first', () => {
+		const system = new SphereSystem({ random: () => 0.5 });
+		system.setBodies(
+			Array.from({ length: 12 }, (_, id) => createBody({ id, x: 100 + id * 90, y: 400 })),
+			viewport
+		);
+		system.step();
+
+		expect(system.getBodies().map((body) => body.targetZ)).toEqual(
+			Array.from({ length: 12 }, (_, index) => depthForIndex(index))
+		);
+		expect(depthForIndex(0)).toBeGreaterThan(depthForIndex(1));
+		expect(depthForIndex(9)).toBeLessThan(depthForIndex(8));
+		expect(depthForIndex(11)).toBe(depthForIndex(1));
+	});
+
+	it('replays identical trajectories from the same seed', () => {
+		const trajectory = (seed) => {
+			const system = new SphereSystem({ seed });
+			system.setBodies(
+				[
+					createBody({ id: 0, x: 200, y: 200 }),
+					createBody({ id: 1, x: 600, y: 400 }),
+					createBody({ id: 2, x: 1000, y: 600 })
+				],
+				viewport
+			);
+
+			const samples = [];
+			for (let frame = 1; frame <= 120; frame++) {
+				const bodies = system.step();
+				if (frame % 30 === 0) {
+					samples.push(bodies.map((body) => [Number(body.x.toFixed(4)), Number(body.y.toFixed(4))]));
+				}
+			}
+			return samples;
+		};
+
+		expect(trajectory('journey-seed')).toEqual(trajectory('journey-seed'));
+		expect(trajectory('journey-seed')).not.toEqual(trajectory('other-seed'));
+		expect(trajectory('journey-seed')).toMatchSnapshot();
+	});
+
+	it('pushes apart overlapping bodies that share a depth layer only', () => {
+		const system = new SphereSystem({ seed: 1 });
+		// Depth layers follow the body index modulo 10: bodies 0 and 10 share layer 0
+		const bodies = Array.from({ length: 11 }, (_, id) =>
+			createBody({ id, x: 100 + id * 100, y: 600, vx: 0, vy: 0, driftSpeed: 0 })
+		);
+		bodies[0] = createBody({ id: 0, x: 500, y: 300, vx: 0, vy: 0, driftSpeed: 0 });
+		bodies[1] = createBody({ id: 1, x: 520, y: 300, vx: 0, vy: 0, driftSpeed: 0 });
+		bodies[10] = createBody({ id: 10, x: 540, y: 300, vx: 0, vy: 0, driftSpeed: 0 });
+		system.setBodies(bodies, viewport);
+
+		for (let frame = 0; frame < 60; frame++) system.step();
+
+		const [a, b] = [system.getBodies()[0], system.getBodies()[10]];
+		expect(Math.hypot(b.x - a.x, b.y - a.y)).toBeGreaterThan(80);
+		// Body 1 sits in another layer and is free to overlap both
+		expect(Math.abs(system.getBodies()[1].x - 520)).toBeLessThan(5);
+	});
+
+	it('never moves the centered body to make room', () => {
+		const system = new SphereSystem({ seed: 1 });
+		const centered = createBody({ id: 0, isCentered: true, x: 610, y: 400, targetZ: 0 });
+		const neighbor = createBody({ id: 10, x: 620, y: 400, vx: 0, vy: 0, driftSpeed: 0, targetZ: 0 });
+		// Fillers far away so the neighbor lands at index 10, in the centered body's layer
+		const fillers = Array.from({ length: 9 }, (_, i) => createBody({ id: i + 1, x: 100 + i * 100, y: 700 }));
+		system.setBodies([centered, ...fillers, neighbor], viewport);
+		system.step();
+
+		expect(Math.hypot(neighbor.x - 620, neighbor.y - 400)).toBeLessThan(1);
+	});
+
+	it('keeps 100 crowded bodies from overlapping within their layers', () => {
+		const system = new SphereSystem({ seed: 'crowd' });
+		const bodies = Array.from({ length: 100 }, (_, id) =>
+			createBody({ id, x: 400 + (id % 7) * 15, y: 300 + (id % 5) * 15, radius: 30, targetRadius: 30, originalRadius: 30 })
+		);
+		system.setBodies(bodies, { width: 2400, height: 1600 });
+
+		for (let frame = 0; frame < 300; frame++) system.step();
+
+		let worstOverlap = 0;
+		for (const a of bodies) {
+			for (const b of bodies) {
+				if (a.id >= b.id || a.id % 10 !== b.id % 10) continue;
+				worstOverlap = Math.max(worstOverlap, a.radius + b.radius - Math.hypot(b.x - a.x, b.y - a.y));
+			}
+		}
+		expect(worstOverlap).toBeLessThan(10);
+	});
+
+	it('holds bodies still while drift is disabled (reduced motion)', () => {
+		const system = new SphereSystem({ random: () => 0.5 });
+		const body = createBody({ id: 0, x: 400, y: 300, vx: 3, vy: -2 });
+		system.setBodies([body], viewport);
+		system.setDriftEnabled(false);
+		for (let i = 0; i < 10; i++) system.step();
+
+		const [after] = system.getBodies();
+		expect(after.x).toBeCloseTo(400, 0);
+		expect(after.y).toBeCloseTo(300, 0);
+
+		system.setDriftEnabled(true);
+		for (let i = 0; i < 10; i++) system.step();
+		expect(system.getBodies()[0].x).not.toBeCloseTo(400, 0);
+	});
+
+	it('steers clustered bodies back toward their cluster centre and keeps them there', () => {
+		const system = new SphereSystem({ random: () => 0.5 });
+		// Heading straight away from a cluster centred at (900, 600)
+		const body = createBody({ id: 0, x: 300, y: 200, vx: 0, vy: 0, driftAngle: Math.PI, cluster: 0 });
+		system.setBodies([body], viewport);
+		system.setClusterCenters([{ x: 0.75, y: 0.75, radius: 0.1 }]);
+		for (let i = 0; i < 2000; i++) system.step();
+
+		let farthest = 0;
+		for (let i = 0; i < 2000; i++) {
+			const [clustered] = system.step();
+			farthest = Math.max(farthest, Math.hypot(clustered.x - 900, clustered.y - 600));
+		}
+		expect(farthest).toBeLessThan(160);
+	});
+
+	describe('fixed timestep', () => {
+		const simulate = (fps, seconds) => {
+			const system = new SphereSystem({ seed: 'frame-rate' });
+			const bodies = Array.from({ length: 12 }, (_, id) =>
+				createBody({ id, x: 150 + (id % 4) * 250, y: 150 + Math.floor(id / 4) * 200 })
+			);
+			system.setBodies(bodies, viewport);
+			system.centerBody(3);
+
+			for (let frame = 0; frame < seconds * fps; frame++) {
+				system.step(1000 / fps);
+			}
+			return system.getBodies().map((body) => ({ x: body.x, y: body.y, radius: body.radius }));
+		};
+
+		it('moves bodies identically at 30, 60 and 144 fps', () => {
+			const at60 = simulate(60, 2);
+			expect(simulate(30, 2)).toEqual(at60);
+			expect(simulate(144, 2)).toEqual(at60);
+		});
+
+		it('carries leftover frame time into the next tick', () => {
+			const system = new SphereSystem({ seed: 1 });
+			system.setBodies([createBody({ id: 0 })], viewport);
+
+			system.step(FIXED_STEP_MS / 2);
+			expect(system.getBodies()[0].x).toBe(200);
+			system.step(FIXED_STEP_MS / 2);
+			expect(system.getBodies()[0].x).not.toBe(200);
+		});
+
+		it('interpolates render positions between the last two ticks', () => {
+			const system = new SphereSystem({ seed: 1 });
+			system.setBodies([createBody({ id: 0, vx: 0, vy: 0 })], viewport);
+
+			system.step(FIXED_STEP_MS * 1.5);
+			const [body] = system.getBodies();
+			const [rendered] = system.getRenderBodies();
+			const previousX = 200;
+
+			expect(system.getInterpolationAlpha()).toBeCloseTo(0.5);
+			expect(rendered.x).toBeCloseTo(previousX + (body.x - previousX) * 0.5);
+			expect(rendered).not.toBe(body);
+		});
+	});
+
+	describe('pointer interaction', () => {
+		it('holds a grabbed body where it is dragged, but never the centered one', () => {
+			const system = new SphereSystem({ seed: 1 });
+			const centered = createBody({ id: 0, isCentered: true });
+			const body = createBody({ id: 1, x: 400, y: 300 });
+			system.setBodies([centered, body], viewport);
+
+			expect(system.grabBody(0)).toBe(false);
+			expect(system.grabBody(1)).toBe(true);
+
+			system.dragBodyTo(1, 450, 320, 0);
+			for (let frame = 0; frame < 10; frame++) system.step();
+
+			expect([body.x, body.y]).toEqual([450, 320]);
+		});
+
+		it('flings a released body with the measured drag velocity, then lets it drift', () => {
+			const system = new SphereSystem({ seed: 1 });
+			const body = createBody({ id: 0, x: 400, y: 300 });
+			system.setBodies([body], viewport);
+
+			system.grabBody(0);
+			system.dragBodyTo(0, 400, 300, 0);
+			system.dragBodyTo(0, 430, 300, 30);
+			system.dragBodyTo(0, 460, 300, 60); // 1000 px/s to the right
+			system.throwBody(0);
+
+			expect(body.isGrabbed).toBe(false);
+			expect(body.vx).toBeCloseTo(1000 / 60);
+			expect(body.vy).toBe(0);
+
+			system.step();
+			expect(body.x).toBeGreaterThan(470);
+
+			for (let frame = 0; frame < 240; frame++) system.step();
+			expect(Math.hypot(body.vx, body.vy)).toBeLessThan(1);
+		});
+
+		it('throws with an explicit velocity, capped to a sane speed', () => {
+			const system = new SphereSystem({ seed: 1 });
+			const body = createBody({ id: 0 });
+			system.setBodies([body], viewport);
+
+			system.grabBody(0);
+			system.throwBody(0, { vx: 0, vy: -100000 });
+
+			expect(body.vx).toBeCloseTo(0);
+			expect(body.vy).toBe(-30);
+		});
+
+		it('pushes nearby bodies away from a point with falloff', () => {
+			const system = new SphereSystem({ seed: 1 });
+			const near = createBody({ id: 0, x: 520, y: 400, vx: 0, vy: 0 });
+			const edge = createBody({ id: 1, x: 600, y: 480, vx: 0, vy: 0 });
+			const far = createBody({ id: 2, x: 900, y: 400, vx: 0, vy: 0 });
+			const held = createBody({ id: 3, x: 500, y: 430, vx: 0, vy: 0 });
+			system.setBodies([near, edge, far, held], viewport);
+			system.grabBody(3);
+
+			system.applyRadialImpulse(500, 400, 150, 2);
+
+			expect(near.vx).toBeCloseTo(2 * (1 - 20 / 150));
+			expect(near.vy).toBeCloseTo(0);
+			expect(edge.vx).toBeGreaterThan(0);
+			expect(edge.vx).toBeLessThan(near.vx);
+			expect([far.vx, far.vy]).toEqual([0, 0]);
+			expect([held.vx, held.vy]).toEqual([0, 0]);
+		});
+
+		it('lets a grabbed body shove same-layer neighbours without yielding', () => {
+			const system = new SphereSystem({ seed: 1 });
+			const fillers = Array.from({ length: 9 }, (_, i) => createBody({ id: i + 1, x: 100 + i * 100, y: 700 }));
+			const held = createBody({ id: 0, x: 500, y: 300 });
+			const neighbor = createBody({ id: 10, x: 540, y: 300, vx: 0, vy: 0, driftSpeed: 0 });
+			system.setBodies([held, ...fillers, neighbor], viewport);
+			system.grabBody(0);
+
+			for (let frame = 0; frame < 30; frame++) system.step();
+
+			expect([held.x, held.y]).toEqual([500, 300]);
+			expect(neighbor.x).toBeGreaterThan(570);
+		});
+	});
 });
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { createRandom, hashSeed, resolveRandom } from '../../src/lib/memories/random';
+
+const take = (random: () => number, count: number) => Array.from({ length: count }, () => random());
+
+describe('createRandom', () => {
+	it('replays the same sequence for the same seed', () => {
+		expect(take(createRandom(42), 5)).toEqual(take(createRandom(42), 5));
+		expect(take(createRandom('kyoto-2024'), 5)).toEqual(take(createRandom('kyoto-2024'), 5));
+		expect(take(createRandom(42), 5)).not.toEqual(take(createRandom(43), 5));
+	});
+
+	it('stays within [0, 1)', () => {
+		const values = take(createRandom('range'), 1000);
+		expect(Math.min(...values)).toBeGreaterThanOrEqual(0);
+		expect(Math.max(...values)).toBeLessThan(1);
+	});
+
+	it('hashes string seeds and keeps integer seeds', () => {
+		expect(hashSeed(7)).toBe(7);
+		expect(hashSeed('a')).toBe(hashSeed('a'));
+		expect(hashSeed('a')).not.toBe(hashSeed('b'));
+	});
+
+	it('falls back to Math.random without a seed', () => {
+		expect(resolveRandom(undefined)).toBe(Math.random);
+		expect(resolveRandom('')).toBe(Math.random);
+	});
+});
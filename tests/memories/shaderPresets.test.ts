@@ -0,0 +1,51 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+	DEFAULT_SHADER_PRESET,
+	SHADER_PRESETS,
+	hexToRgb,
+	resolveShaderPreset
+} from '../../src/lib/memories/shaderPresets';
+
+describe('shader presets', () => {
+	it('declares a vec3 uniform for every preset colour', () => {
+		for (const preset of Object.values(SHADER_PRESETS)) {
+			for (const name of Object.keys(preset.colors)) {
+				expect(preset.fragmentShader).toContain(`uniform vec3 ${name}Color;`);
+			}
+			expect(preset.fragmentShader).toContain('gl_FragColor');
+		}
+	});
+
+	it('parses short and long hex colours', () => {
+		expect(hexToRgb('#ffccf2')).toEqual([1, 0.8, 242 / 255]);
+		expect(hexToRgb('#0f0')).toEqual([0, 1, 0]);
+		expect(hexToRgb('ffccf2')).toBeNull();
+		expect(hexToRgb('#ffccf')).toBeNull();
+	});
+
+	it('defaults to the spectral preset with its own colours', () => {
+		const shader = resolveShaderPreset();
+		expect(shader.name).toBe(DEFAULT_SHADER_PRESET);
+		expect(shader.colors['flame']).toEqual(hexToRgb('#ffccf2'));
+		expect(shader.animated).toBe(false);
+	});
+
+	it('applies colour overrides on top of the preset defaults', () => {
+		const shader = resolveShaderPreset({ preset: 'duotone', colors: { highlight: '#ffffff' } });
+		expect(shader.name).toBe('duotone');
+		expect(shader.fragmentShader).toBe(SHADER_PRESETS.duotone.fragmentShader);
+		expect(shader.colors).toEqual({ shadow: hexToRgb('#1b1040'), highlight: [1, 1, 1] });
+	});
+
+	it('warns and falls back on unknown presets, colour names and malformed colours', () => {
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+		expect(resolveShaderPreset({ preset: 'sparkles' }).name).toBe(DEFAULT_SHADER_PRESET);
+		const shader = resolveShaderPreset({ preset: 'film-grain', colors: { fade: 'beige', glow: '#fff' } });
+		expect(shader.colors).toEqual({ fade: hexToRgb('#d9c4a0') });
+		expect(shader.animated).toBe(true);
+		expect(warn).toHaveBeenCalledTimes(3);
+
+		warn.mockRestore();
+	});
+});
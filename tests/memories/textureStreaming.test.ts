@@ -0,0 +1,168 @@
+import { describe, expect, it, vi } from 'vitest';
+import { LoadQueue, TextureBudget, estimateTextureBytes } from '../../src/lib/memories/textureStreaming';
+
+function deferred() {
+	let resolve!: () => void;
+	const promise = new Promise<void>((done) => {
+		resolve = done;
+	});
+	return { promise, resolve };
+}
+
+const flush = () => new Promise((resolve) => setTimeout(resolve, 0));
+
+describe('LoadQueue', () => {
+	it('caps concurrent loads and starts the highest priority next', async () => {
+		const queue = new LoadQueue(2);
+		const started: string[] = [];
+		const gates = new Map<string, ReturnType<typeof deferred>>();
+		const load = (key: string, priority: number) => {
+			const gate = deferred();
+			gates.set(key, gate);
+			queue.enqueue(key, priority, () => {
+				started.push(key);
+				return gate.promise;
+			});
+		};
+
+		load('back', 0);
+		load('middle', 1);
+		load('front', 2);
+		load('far-back', -1);
+		expect(started).toEqual(['back', 'middle']);
+		expect(queue.activeCount).toBe(2);
+
+		gates.get('back')?.resolve();
+		await flush();
+		expect(started).toEqual(['back', 'middle', 'front']);
+
+		queue.enqueue('centered', Infinity, () => {
+			started.push('centered');
+			return Promise.resolve();
+		});
+		gates.get('middle')?.resolve();
+		await flush();
+		expect(started.slice(3)).toEqual(['centered', 'far-back']);
+	});
+
+	it('raises the priority of a key queued twice instead of loading it again', async () => {
+		const queue = new LoadQueue(1);
+		const gate = deferred();
+		const task = vi.fn(() => Promise.resolve());
+		queue.enqueue('busy', 0, () => gate.promise);
+		queue.enqueue('a', 0, task);
+		queue.enqueue('b', 1, () => Promise.resolve());
+		queue.enqueue('a', 5, task);
+
+		expect(queue.size).toBe(2);
+		gate.resolve();
+		await flush();
+		expect(task).toHaveBeenCalledTimes(1);
+	});
+
+	it('cancels waiting loads and keeps draining after failures', async () => {
+		const queue = new LoadQueue(1);
+		const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+		const later = vi.fn(() => Promise.resolve());
+		const cancelled = vi.fn(() => Promise.resolve());
+
+		queue.enqueue('broken', 1, () => Promise.reject(new Error('404')));
+		queue.enqueue('cancelled', 0, cancelled);
+		queue.enqueue('later', 0, later);
+		expect(queue.cancel('cancelled')).toBe(true);
+		expect(queue.cancel('broken')).toBe(false); // already running
+
+		await flush();
+		expect(cancelled).not.toHaveBeenCalled();
+		expect(later).toHaveBeenCalled();
+		expect(warn).toHaveBeenCalled();
+		warn.mockRestore();
+	});
+
+	it('loads keys again after a reset while their old loads are still in flight', async () => {
+		// A lost WebGL context: the orb's preview is loading and its full texture waits
+		const queue = new LoadQueue(1);
+		const stalePreview = deferred();
+		const staleFull = vi.fn(() => Promise.resolve());
+		queue.enqueue('preview:0', 0, () => stalePreview.promise);
+		queue.enqueue('full:0', Infinity, staleFull);
+		queue.reset();
+		expect(queue.has('preview:0')).toBe(false);
+
+		// The rebuilt orb asks for both again
+		const preview = deferred();
+		const started: string[] = [];
+		queue.enqueue('preview:0', 0, () => {
+			started.push('preview');
+			return preview.promise;
+		});
+		queue.enqueue('full:0', Infinity, () => {
+			started.push('full');
+			return Promise.resolve();
+		});
+		expect(started).toEqual(['preview']);
+
+		// The old load settling neither frees the new one's slot nor forgets its key
+		stalePreview.resolve();
+		await flush();
+		expect(started).toEqual(['preview']);
+		expect(queue.has('preview:0')).toBe(true);
+
+		preview.resolve();
+		await flush();
+		expect(started).toEqual(['preview', 'full']);
+		expect(staleFull).not.toHaveBeenCalled();
+		expect(queue.activeCount).toBe(0);
+	});
+});
+
+describe('TextureBudget', () => {
+	it('evicts least recently used entries past the budget, sparing the pinned one', () => {
+		const evicted: string[] = [];
+		const budget = new TextureBudget<string>(100, (key) => evicted.push(key));
+
+		budget.set('a', 'A', 40);
+		budget.set('b', 'B', 40);
+		budget.get('a'); // a is now more recent than b
+		budget.set('c', 'C', 40);
+		expect(evicted).toEqual(['b']);
+		expect(budget.usedBytes).toBe(80);
+
+		budget.pin('a');
+		budget.set('d', 'D', 50);
+		expect(evicted).toEqual(['b', 'c']);
+		expect(budget.has('a')).toBe(true);
+		expect(budget.has('d')).toBe(true);
+		expect(budget.usedBytes).toBe(90);
+	});
+
+	it('keeps a pinned entry even when it alone exceeds the budget', () => {
+		const evicted: string[] = [];
+		const budget = new TextureBudget<string>(50, (key) => evicted.push(key));
+
+		budget.pin('centered');
+		budget.set('centered', 'video', 80);
+		expect(evicted).toEqual([]);
+		expect(budget.usedBytes).toBe(80);
+
+		budget.pin(null);
+		expect(evicted).toEqual(['centered']);
+		expect(budget.usedBytes).toBe(0);
+	});
+
+	it('clears through the eviction callback', () => {
+		const onEvict = vi.fn();
+		const budget = new TextureBudget<number>(1000, onEvict);
+		budget.set('a', 1, 10);
+		budget.set('b', 2, 10);
+		budget.clear();
+
+		expect(onEvict).toHaveBeenCalledTimes(2);
+		expect(budget.usedBytes).toBe(0);
+	});
+
+	it('estimates RGBA bytes with a third more for mipmaps', () => {
+		expect(estimateTextureBytes(256, 256)).toBe(262144);
+		expect(estimateTextureBytes(256, 256, true)).toBe(349526);
+	});
+});
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import rehypeSectionize from '../src/lib/rehypeSectionize.mjs';
+
+interface Node {
+	type: string;
+	tagName?: string;
+	value?: string;
+	properties?: { className?: string[]; [name: string]: unknown };
+	children?: Node[];
+}
+
+const text = (value: string): Node => ({ type: 'text', value });
+const el = (tagName: string, ...children: Node[]): Node => ({ type: 'element', tagName, properties: {}, children });
+
+// Intro, "First" (with an H3), "Second" and "Third", newlines between blocks as remark emits them
+function markdownTree(): Node {
+	const blocks = [
+		el('p', text('Intro')),
+		el('h2', text('First')),
+		el('p', text('One')),
+		el('h3', text('Details')),
+		el('p', text('More')),
+		el('h2', text('Second')),
+		el('p', text('Two')),
+		el('h2', text('Third')),
+		el('p', text('Three'))
+	];
+	return { type: 'root', children: blocks.flatMap((block) => [block, text('\n')]) };
+}
+
+const isSection = (node: Node) => node.properties?.className?.includes('content-section') ?? false;
+
+function headingOf(section: Node): string {
+	const heading = section.children?.find((child) => child.tagName === 'h2' || child.tagName === 'p');
+	return heading?.children?.[0]?.value ?? '';
+}
+
+describe('rehypeSectionize', () => {
+	it('keeps everything up to the next H2 inside its section', () => {
+		const tree = markdownTree();
+		rehypeSectionize()(tree, { data: { astro: { frontmatter: {} } } });
+
+		const sections = (tree.children ?? []).filter(isSection);
+		expect(sections.map(headingOf)).toEqual(['Intro', 'First', 'Second', 'Third']);
+		expect(sections[1]?.children?.map((child) => child.tagName ?? child.type)).toEqual(['h2', 'text', 'p', 'text', 'section']);
+		expect(sections[1]?.children?.at(-1)?.children?.map((child) => child.tagName ?? child.type)).toEqual(['h3', 'text', 'p', 'text']);
+	});
+
+	it('labels each section by its slugged, anchored heading', () => {
+		const tree = markdownTree();
+		rehypeSectionize()(tree, { data: { astro: { frontmatter: {} } } });
+
+		const first = (tree.children ?? []).filter(isSection)[1];
+		const subsection = first?.children?.at(-1);
+		expect(first?.tagName).toBe('section');
+		expect(first?.properties).toMatchObject({ ariaLabelledBy: 'first' });
+		expect(first?.children?.[0]?.properties).toMatchObject({ id: 'first' });
+		expect(first?.children?.[0]?.children?.at(-1)).toMatchObject({ tagName: 'a', properties: { href: '#first' }, children: [] });
+		expect(subsection?.properties).toMatchObject({ className: ['content-subsection'], ariaLabelledBy: 'details' });
+	});
+
+	it('keeps author-set IDs and numbers repeated slugs', () => {
+		const custom = el('h2', text('Notes'));
+		custom.properties = { id: 'custom' };
+		const tree: Node = { type: 'root', children: [el('h2', text('Notes')), custom, el('h2', text('Notes!')), el('h3', text(''))] };
+		rehypeSectionize()(tree, { data: { astro: { frontmatter: {} } } });
+
+		const ids = (tree.children ?? []).map((section) => section.children?.[0]?.properties?.['id']);
+		expect(ids).toEqual(['notes', 'custom', 'notes-1']);
+		expect(tree.children?.at(-1)?.children?.at(-1)?.children?.[0]?.properties?.['id']).toBe('section');
+	});
+
+	it('never gives a generated slug the ID an author set, before or after it', () => {
+		const custom = el('h2', text('Intro'));
+		custom.properties = { id: 'first' };
+		const late = el('h3', text('Late'));
+		late.properties = { id: 'second' };
+		const tree: Node = { type: 'root', children: [el('h2', text('Second')), custom, el('h2', text('First')), late] };
+		rehypeSectionize()(tree, { data: { astro: { frontmatter: {} } } });
+
+		const ids = (tree.children ?? []).flatMap((section) =>
+			[section, ...(section.children ?? [])].map((node) => node.children?.[0]?.properties?.['id']).filter(Boolean)
+		);
+		expect(ids).toEqual(['second-1', 'first', 'first-1', 'second']);
+	});
+
+	it('hands the page a nested table of contents', () => {
+		const frontmatter: { toc?: unknown } = {};
+		rehypeSectionize()(markdownTree(), { data: { astro: { frontmatter } } });
+
+		expect(frontmatter.toc).toEqual([
+			{ id: 'first', text: 'First', depth: 2, children: [{ id: 'details', text: 'Details', depth: 3, children: [] }] },
+			{ id: 'second', text: 'Second', depth: 2, children: [] },
+			{ id: 'third', text: 'Third', depth: 2, children: [] }
+		]);
+	});
+
+	it('leaves entries with another layout variant alone', () => {
+		const tree = markdownTree();
+		rehypeSectionize()(tree, { data: { astro: { frontmatter: { layoutVariant: 'memory-spheres' } } } });
+
+		expect((tree.children ?? []).some(isSection)).toBe(false);
+	});
+});
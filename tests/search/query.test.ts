@@ -0,0 +1,138 @@
+import { describe, expect, it } from 'vitest';
+import { buildSearchIndex, type SearchDocument } from '../../src/lib/search/build';
+import { allowedEdits, createSearcher, editDistance, isSearchable, parseQuery } from '../../src/lib/search/query';
+
+const documents: SearchDocument[] = [
+	{
+		url: '/projects/modular-synth',
+		collection: 'projects',
+		title: 'Modular Synthesizer',
+		description: 'A hand-built Eurorack system',
+		tags: ['music', 'electronics'],
+		body: '## Oscillators\n\nThe first module was a voltage controlled oscillator.'
+	},
+	{
+		url: '/notes/on-listening',
+		collection: 'notes',
+		title: 'On Listening',
+		description: 'Notes about attention',
+		tags: ['music'],
+		body: 'Long before any synthesizer, there was the practice of deep listening to rooms.'
+	},
+	{
+		url: '/lab/cell-imaging',
+		collection: 'lab',
+		title: 'Cell Imaging',
+		description: 'Microscopy experiments',
+		tags: ['biology'],
+		body: 'Endosomes traced with a confocal microscope over several hours.'
+	}
+];
+
+const search = createSearcher(buildSearchIndex(documents));
+const urls = (query: string, options = {}) => search(query, options).map((result) => result.doc.url);
+
+describe('buildSearchIndex', () => {
+	it('stores flat postings per term and plain text per document', () => {
+		const index = buildSearchIndex(documents);
+
+		// doc 0: title (field 0) once; doc 1: body (field 3) once
+		expect(index.terms['synthesizer']).toEqual([0, 0, 1, 1, 3, 1]);
+		expect(index.docs[0]?.text).toBe('Oscillators The first module was a voltage controlled oscillator.');
+		expect(Object.keys(index.terms)).toEqual([...Object.keys(index.terms)].sort());
+	});
+});
+
+describe('editDistance', () => {
+	it('counts an adjacent swap as one edit', () => {
+		expect(editDistance('synth', 'sytnh', 2)).toBe(1);
+		expect(editDistance('music', 'musci', 1)).toBe(1);
+	});
+
+	it('gives up past the limit', () => {
+		expect(editDistance('cell', 'oscillator', 2)).toBe(3);
+	});
+
+	it('tolerates more typos in longer words', () => {
+		expect([allowedEdits(3), allowedEdits(5), allowedEdits(9)]).toEqual([0, 1, 2]);
+	});
+});
+
+describe('createSearcher', () => {
+	it('ranks title matches above body matches', () => {
+		expect(urls('synthesizer')).toEqual(['/projects/modular-synth', '/notes/on-listening']);
+	});
+
+	it('matches the start of a word being typed', () => {
+		expect(urls('micro')).toEqual(['/lab/cell-imaging']);
+		expect(urls('osc')).toEqual(['/projects/modular-synth']);
+	});
+
+	it('tolerates typos, also in a partly typed word', () => {
+		expect(urls('microscpe')).toEqual(['/lab/cell-imaging']);
+		expect(urls('endosmoe')).toEqual(['/lab/cell-imaging']);
+		expect(urls('eurroack')).toEqual(['/projects/modular-synth']);
+	});
+
+	it('requires every query word to match', () => {
+		expect(urls('music listening')).toEqual(['/notes/on-listening']);
+		expect(urls('music microscope')).toEqual([]);
+	});
+
+	it('filters by collection and limits results', () => {
+		expect(urls('music', { collection: 'notes' })).toEqual(['/notes/on-listening']);
+		expect(urls('music', { limit: 1 })).toHaveLength(1);
+	});
+
+	it('highlights matches in the title and a snippet around the first one', () => {
+		const [result] = search('voltage osc');
+
+		expect(result?.title).toEqual({ text: 'Modular Synthesizer', highlights: [] });
+		const snippet = result?.snippet;
+		const marked = snippet?.highlights.map(([start, end]) => snippet.text.slice(start, end));
+		expect(marked).toEqual(['Oscillators', 'voltage', 'oscillator']);
+	});
+
+	it('starts long snippets near the match with an ellipsis', () => {
+		const long = createSearcher(
+			buildSearchIndex([
+				{ ...documents[0]!, body: `${'Filler words here. '.repeat(30)}The wavefolder sits last.` }
+			])
+		);
+		const [result] = long('wavefolder');
+
+		expect(result?.snippet.text.startsWith('…')).toBe(true);
+		expect(result?.snippet.text).toContain('The wavefolder sits last.');
+	});
+
+	it('matches a single letter being typed as the start of a word', () => {
+		expect(urls('e').sort()).toEqual(['/lab/cell-imaging', '/projects/modular-synth']);
+	});
+
+	it('matches a stop word being typed as the start of a word, without requiring it', () => {
+		expect(urls('an')).toEqual(['/notes/on-listening']);
+		expect(urls('music an')).toEqual(['/notes/on-listening', '/projects/modular-synth']);
+	});
+
+	it('returns nothing for queries of only finished stop words', () => {
+		expect(search('the of ')).toEqual([]);
+	});
+});
+
+describe('parseQuery', () => {
+	it('drops stop words except the one being typed', () => {
+		expect(parseQuery('the art of')).toEqual([
+			{ term: 'art', typing: false, required: true },
+			{ term: 'of', typing: true, required: false }
+		]);
+		expect(parseQuery('the art of ')).toEqual([{ term: 'art', typing: false, required: true }]);
+	});
+
+	it('tells queries the index can answer from stop words alone', () => {
+		expect(isSearchable('b')).toBe(true);
+		expect(isSearchable('art of')).toBe(true);
+		expect(isSearchable('in')).toBe(false);
+		expect(isSearchable('so ')).toBe(false);
+		expect(isSearchable('?!')).toBe(false);
+	});
+});
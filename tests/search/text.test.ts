@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { isStopWord, markdownToText, normalizeTerm, tokenize } from '../../src/lib/search/text';
+
+describe('normalizeTerm', () => {
+	it('lowercases and strips accents and apostrophes', () => {
+		expect(normalizeTerm('Café')).toBe('cafe');
+		expect(normalizeTerm("Maker's")).toBe('makers');
+	});
+});
+
+describe('tokenize', () => {
+	it('keeps offsets into the original text', () => {
+		const text = 'Résumé of the Synth build';
+		const tokens = tokenize(text);
+
+		expect(tokens.map((token) => token.term)).toEqual(['resume', 'synth', 'build']);
+		expect(tokens.map((token) => text.slice(token.start, token.end))).toEqual(['Résumé', 'Synth', 'build']);
+	});
+
+	it('drops stop words unless asked to keep them', () => {
+		expect(tokenize('the art of it', { keepStopWords: true }).map((token) => token.term)).toEqual(['the', 'art', 'of', 'it']);
+		expect(tokenize('the art of it').map((token) => token.term)).toEqual(['art']);
+		expect([isStopWord('the'), isStopWord('art')]).toEqual([true, false]);
+	});
+});
+
+describe('markdownToText', () => {
+	it('keeps readable text and drops markup', () => {
+		const markdown = [
+			'## Getting **started**',
+			'',
+			'See [the docs](https://example.com) and ![diagram](./d.png).',
+			'',
+			'- one **bold**, item',
+			'> quoted <em>words</em>',
+			'',
+			'```js',
+			'const synth = 1;',
+			'```'
+		].join('\n');
+
+		expect(markdownToText(markdown)).toBe('Getting started See the docs and . one bold, item quoted words const synth = 1;');
+	});
+});
@@ -0,0 +1,65 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+	formatCommitRange,
+	readCommitsBetween,
+	readGitHead,
+	resolveGitDir
+} from '../../src/lib/time-tracker-git';
+
+const SHA_A = 'a'.repeat(40);
+const SHA_B = 'b'.repeat(40);
+const SHA_C = 'c'.repeat(40);
+
+describe('time-tracker git', () => {
+	let projectRoot: string;
+	let gitDir: string;
+
+	beforeEach(async () => {
+		projectRoot = await mkdtemp(join(tmpdir(), 'time-tracker-git-'));
+		gitDir = join(projectRoot, '.git');
+		await mkdir(join(gitDir, 'logs'), { recursive: true });
+	});
+
+	afterEach(async () => {
+		await rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('resolves the branch through packed refs', async () => {
+		await writeFile(join(gitDir, 'HEAD'), 'ref: refs/heads/feature/orbs\n');
+		await writeFile(join(gitDir, 'packed-refs'), `# pack-refs with: peeled\n${SHA_B} refs/heads/feature/orbs\n`);
+
+		expect(await resolveGitDir(projectRoot)).toBe(gitDir);
+		expect(await readGitHead(gitDir)).toEqual({ branch: 'feature/orbs', commit: SHA_B });
+	});
+
+	it('reports a detached HEAD without a branch', async () => {
+		await writeFile(join(gitDir, 'HEAD'), `${SHA_C}\n`);
+
+		expect(await readGitHead(gitDir)).toEqual({ branch: null, commit: SHA_C });
+	});
+
+	it('lists only commits made inside the window from the reflog', async () => {
+		const at = (iso: string) => Date.parse(iso) / 1000;
+		await writeFile(
+			join(gitDir, 'logs', 'HEAD'),
+			[
+				`${SHA_A} ${SHA_B} Dev <dev@example.com> ${at('2025-01-06T08:00:00Z')} +0100\tcommit: Before the session`,
+				`${SHA_B} ${SHA_C} Dev <dev@example.com> ${at('2025-01-06T09:30:00Z')} +0100\tcommit (amend): Orb drag`,
+				`${SHA_C} ${SHA_A} Dev <dev@example.com> ${at('2025-01-06T09:40:00Z')} +0100\tcheckout: moving from main to x`,
+				''
+			].join('\n')
+		);
+
+		const commits = await readCommitsBetween(gitDir, new Date('2025-01-06T09:00:00Z'), new Date('2025-01-06T10:00:00Z'));
+
+		expect(commits).toEqual([{ sha: SHA_C, message: 'Orb drag', at: '2025-01-06T09:30:00.000Z' }]);
+	});
+
+	it('labels commit ranges with short SHAs', () => {
+		expect(formatCommitRange(SHA_A, SHA_B)).toBe('aaaaaaa..bbbbbbb');
+		expect(formatCommitRange(SHA_A, SHA_A)).toBe('aaaaaaa');
+	});
+});
@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { expandBraces, matchGlobRules, matchesGlob, parseGlobRules } from '../../src/lib/glob-match';
+
+describe('glob-match', () => {
+	it('matches unanchored names at any depth, including directories', () => {
+		expect(matchesGlob('src/app/server.log', '*.log')).toBe(true);
+		expect(matchesGlob('packages/site/node_modules/a/index.js', 'node_modules')).toBe(true);
+		expect(matchesGlob('src/distance.ts', 'dist')).toBe(false);
+	});
+
+	it('anchors patterns containing a slash to the project root', () => {
+		expect(matchesGlob('src/content/drafts/trip.md', 'src/content/drafts')).toBe(true);
+		expect(matchesGlob('docs/src/content/drafts/trip.md', 'src/content/drafts')).toBe(false);
+		expect(matchesGlob('public/media/a.jpg', '/public/media')).toBe(true);
+	});
+
+	it('supports globstars, classes, single characters and braces', () => {
+		expect(matchesGlob('src/lib/memories/physics.ts', 'src/**/*.ts')).toBe(true);
+		expect(matchesGlob('src/index.ts', 'src/**/*.ts')).toBe(true);
+		expect(matchesGlob('logs/2024-01.txt', 'logs/202[0-4]-??.txt')).toBe(true);
+		expect(matchesGlob('logs/2025-01.txt', 'logs/202[!5]-??.txt')).toBe(false);
+		expect(matchesGlob('src/page.astro', '*.{ts,astro}')).toBe(true);
+		expect(expandBraces('a.{x,y}.{1,2}')).toEqual(['a.x.1', 'a.x.2', 'a.y.1', 'a.y.2']);
+	});
+
+	it('only matches directories with a trailing slash', () => {
+		expect(matchesGlob('build/out.js', 'build/')).toBe(true);
+		expect(matchesGlob('build', 'build/')).toBe(false);
+	});
+
+	it('lets the last matching rule win, so negations re-include files', () => {
+		const rules = parseGlobRules(['# comment', '', '*.md', '!README.md', '\\#notes.md']);
+
+		expect(rules.map((rule) => rule.source)).toEqual(['*.md', '!README.md', '\\#notes.md']);
+		expect(matchGlobRules('docs/guide.md', rules)).toBe(true);
+		expect(matchGlobRules('README.md', rules)).toBe(false);
+		expect(matchGlobRules('src/index.ts', rules)).toBe(false);
+	});
+});
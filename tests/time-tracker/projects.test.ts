@@ -0,0 +1,98 @@
+import { mkdir, mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { TrackingSession } from '../../src/lib/time-tracker';
+import { discoverTrackerDirs, loadTrackedProjects, summarizeProjects } from '../../src/lib/time-tracker-projects';
+
+function session(startTime: string, seconds: number): TrackingSession {
+	return {
+		startTime,
+		endTime: new Date(Date.parse(startTime) + seconds * 1000).toISOString(),
+		duration: seconds,
+		activeSeconds: seconds,
+		wallSeconds: seconds,
+		filesModified: []
+	};
+}
+
+describe('time-tracker projects', () => {
+	let home: string;
+
+	const writeProject = async (name: string, dataFile: string, liveSession?: object) => {
+		const dir = join(home, `.time-tracker-${name}`);
+		await mkdir(dir, { recursive: true });
+		await writeFile(join(dir, 'data.json'), dataFile);
+		if (liveSession) {
+			await writeFile(join(dir, 'session.json'), JSON.stringify(liveSession));
+		}
+	};
+
+	beforeEach(async () => {
+		home = await mkdtemp(join(tmpdir(), 'time-tracker-home-'));
+	});
+
+	afterEach(async () => {
+		await rm(home, { recursive: true, force: true });
+	});
+
+	it('discovers only tracker directories that hold a data file', async () => {
+		await writeProject('site', JSON.stringify({ sessions: [] }));
+		await mkdir(join(home, '.time-tracker-empty'));
+		await mkdir(join(home, '.config'));
+
+		expect(await discoverTrackerDirs(home)).toEqual([join(home, '.time-tracker-site')]);
+	});
+
+	it('totals projects per week and hour, including running sessions and unreadable files', async () => {
+		const sessions = [session('2025-01-06T09:00:00.000Z', 3600), session('2025-01-14T22:30:00.000Z', 3600)];
+		await writeProject('site', JSON.stringify({ schemaVersion: 2, sessions, totalSeconds: 7200 }));
+		await writeProject('api', JSON.stringify({ sessions: [] }), {
+			pid: process.pid,
+			session: { ...session('2025-01-15T09:00:00.000Z', 1800), endTime: null }
+		});
+		await writeProject('broken', '{"sessions": [');
+
+		const projects = await loadTrackedProjects(home);
+		const overview = summarizeProjects(projects, {
+			weeks: 2,
+			timeZone: 'UTC',
+			now: new Date('2025-01-16T12:00:00.000Z')
+		});
+
+		expect(overview.projects.map((project) => [project.name, project.totalSeconds, project.running])).toEqual([
+			['site', 7200, false],
+			['api', 1800, true],
+			['broken', 0, false]
+		]);
+		expect(overview.projects[2]?.error).toMatch(/JSON/);
+		expect(overview.weeks).toEqual([
+			{ week: '2025-01-06', seconds: { site: 3600 } },
+			{ week: '2025-01-13', seconds: { site: 3600, api: 1800 } }
+		]);
+		expect(overview.hourOfDay[9]).toBe(3600 + 1800);
+		expect(overview.hourOfDay[22]).toBe(1800);
+		expect(overview.hourOfDay[23]).toBe(1800);
+		expect(overview.totalSeconds).toBe(9000);
+	});
+
+	it('replays journaled sessions and charts hours only within the charted weeks', async () => {
+		const saved = session('2024-11-04T09:00:00.000Z', 3600);
+		const journaled = session('2025-01-14T15:00:00.000Z', 1200);
+		await writeProject('site', JSON.stringify({ schemaVersion: 2, sessions: [saved], totalSeconds: 3600 }));
+		await writeFile(
+			join(home, '.time-tracker-site', 'journal.ndjson'),
+			`${JSON.stringify({ type: 'session-end', at: journaled.endTime, session: journaled })}\n`
+		);
+
+		const overview = summarizeProjects(await loadTrackedProjects(home), {
+			weeks: 2,
+			timeZone: 'UTC',
+			now: new Date('2025-01-16T12:00:00.000Z')
+		});
+
+		expect(overview.projects[0]).toMatchObject({ name: 'site', totalSeconds: 4800, sessionCount: 2 });
+		expect(overview.hourOfDay[9]).toBe(0);
+		expect(overview.hourOfDay[15]).toBe(1200);
+	});
+});
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import type { TrackingSession } from '../../src/lib/time-tracker';
+import {
+	computeStreaks,
+	dayKey,
+	exportCsv,
+	exportICalendar,
+	exportMarkdownDigest,
+	filterSessions,
+	sumByHourOfDay,
+	weekKey
+} from '../../src/lib/time-tracker-report';
+
+function session(startTime: string, seconds: number, paths: string[] = []): TrackingSession {
+	return {
+		startTime,
+		endTime: new Date(Date.parse(startTime) + seconds * 1000).toISOString(),
+		duration: seconds,
+		activeSeconds: seconds,
+		wallSeconds: seconds,
+		filesModified: paths.map((path) => ({ path, touches: 1, lastModified: startTime }))
+	};
+}
+
+describe('time-tracker report', () => {
+	it('buckets days in the requested time zone', () => {
+		const lateEvening = new Date('2025-01-06T23:30:00.000Z');
+		expect(dayKey(lateEvening, 'UTC')).toBe('2025-01-06');
+		expect(dayKey(lateEvening, 'Asia/Kolkata')).toBe('2025-01-07');
+		expect(weekKey('2025-01-12')).toBe('2025-01-06');
+	});
+
+	it('filters sessions by an inclusive day range', () => {
+		const sessions = [
+			session('2025-01-05T10:00:00.000Z', 60),
+			session('2025-01-06T10:00:00.000Z', 60),
+			session('2025-01-08T10:00:00.000Z', 60)
+		];
+		const selected = filterSessions(sessions, { from: '2025-01-06', to: '2025-01-08', timeZone: 'UTC' });
+		expect(selected.map((s) => s.startTime)).toEqual([sessions[1]!.startTime, sessions[2]!.startTime]);
+	});
+
+	it('spreads active time over the hours a session spans', () => {
+		const halfActive = { ...session('2025-01-06T09:45:00.000Z', 1800), wallSeconds: 3600 };
+		const hours = sumByHourOfDay([halfActive], 'Asia/Kolkata');
+
+		// 09:45Z is 15:15 in Kolkata; the hour spans 15:15-16:15 local time
+		expect(hours[15]).toBe(1350);
+		expect(hours[16]).toBe(450);
+		expect(hours.reduce((sum, seconds) => sum + seconds, 0)).toBe(1800);
+	});
+
+	it('counts the current streak through a day without activity yet', () => {
+		const streaks = computeStreaks(['2025-01-01', '2025-01-02', '2025-01-03', '2025-01-06', '2025-01-07'], '2025-01-08');
+		expect(streaks).toEqual({ longest: 3, current: 2 });
+	});
+
+	it('exports CSV rows with quoted fields', () => {
+		const csv = exportCsv([session('2025-01-06T10:00:00.000Z', 5400, ['src/notes, drafts/a.md'])], { timeZone: 'UTC' });
+		const [header, row] = csv.trim().split('\r\n');
+		expect(header).toBe('date,start,end,active_seconds,wall_seconds,active_hours,files,top_area,branch,commits');
+		expect(row).toBe('2025-01-06,2025-01-06T10:00:00.000Z,2025-01-06T11:30:00.000Z,5400,5400,1.50,1,"src/notes, drafts",,');
+	});
+
+	it('exports one folded VEVENT per session', () => {
+		const longPath = `src/components/craft/${'Nested'.repeat(12)}.astro`;
+		const ics = exportICalendar([session('2025-01-06T10:00:00.000Z', 3600, [longPath])], { calendarName: 'site' });
+		const lines = ics.split('\r\n');
+
+		expect(lines.filter((line) => line === 'BEGIN:VEVENT')).toHaveLength(1);
+		expect(lines).toContain('DTSTART:20250106T100000Z');
+		expect(lines).toContain('DTEND:20250106T110000Z');
+		expect(lines.every((line) => Buffer.byteLength(line) <= 75)).toBe(true);
+	});
+
+	it('summarizes totals, streaks and busiest days in the Markdown digest', () => {
+		const digest = exportMarkdownDigest(
+			[session('2025-01-06T10:00:00.000Z', 3600), session('2025-01-07T10:00:00.000Z', 7200)],
+			{ from: '2025-01-06', to: '2025-01-12', timeZone: 'UTC' }
+		);
+
+		expect(digest).toContain('**Total:** 3h 0m 0s in 2 sessions over 2 days');
+		expect(digest).toContain('**Streaks:** current 0 days, longest 2 days');
+		expect(digest).toMatch(/## Busiest days\n\n- 2025-01-07: 2h 0m 0s/);
+		expect(digest).toContain('## Week of 2025-01-06 — 3h 0m 0s');
+	});
+
+	it('leaves area shares blank when every session lasted no time', () => {
+		const digest = exportMarkdownDigest(
+			[session('2025-01-06T10:00:00.000Z', 0, ['src/index.ts']), session('2025-01-07T10:00:00.000Z', 0, ['src/app.ts'])],
+			{ from: '2025-01-06', to: '2025-01-12', timeZone: 'UTC' }
+		);
+
+		expect(digest).toContain('**Total:** 0s in 2 sessions over 2 days');
+		expect(digest).toMatch(/\| `src` \| 0\.0h \| – \|/);
+		expect(digest).not.toContain('NaN');
+	});
+});
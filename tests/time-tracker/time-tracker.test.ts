@@ -0,0 +1,374 @@
+import { mkdir, mkdtemp, readFile, rm, writeFile } from 'fs/promises';
+import { existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+	TimeTracker,
+	CURRENT_SCHEMA_VERSION,
+	attributeSessionTime,
+	getTrackedArea,
+	migrateTrackingData,
+	UNATTRIBUTED_AREA,
+	type JournalEvent,
+	type StoredTrackingData,
+	type TrackingSession
+} from '../../src/lib/time-tracker';
+
+const FIFTEEN_MINUTES = 15 * 60 * 1000;
+
+function storedData(sessions: StoredTrackingData['sessions']): StoredTrackingData {
+	return {
+		sessions,
+		totalSeconds: sessions.reduce((sum, session) => sum + session.duration, 0),
+		firstTracked: sessions[0]?.startTime ?? null,
+		lastTracked: sessions[sessions.length - 1]?.endTime ?? null
+	};
+}
+
+describe('getTrackedArea', () => {
+	it('groups files by their directory, truncated to three segments', () => {
+		expect(getTrackedArea('src/lib/memories/physics.ts')).toBe('src/lib/memories');
+		expect(getTrackedArea('src/content/journey/2024/trip.md')).toBe('src/content/journey');
+		expect(getTrackedArea('src/lib/time-tracker.ts')).toBe('src/lib');
+		expect(getTrackedArea('package.json')).toBe('.');
+	});
+});
+
+describe('attributeSessionTime', () => {
+	it('splits the session duration by touches per area', () => {
+		const attribution = attributeSessionTime({
+			startTime: '2025-01-06T09:00:00.000Z',
+			endTime: '2025-01-06T10:00:00.000Z',
+			duration: 3600,
+			activeSeconds: 3600,
+			wallSeconds: 3600,
+			filesModified: [
+				{ path: 'src/components/craft/MediaCard.astro', touches: 3, lastModified: '2025-01-06T09:30:00.000Z' },
+				{ path: 'src/lib/memories/physics.ts', touches: 1, lastModified: '2025-01-06T10:00:00.000Z' }
+			]
+		});
+
+		expect(attribution.get('src/components/craft')).toBe(2700);
+		expect(attribution.get('src/lib/memories')).toBe(900);
+	});
+
+	it('reports sessions without file activity as unattributed', () => {
+		const attribution = attributeSessionTime({
+			startTime: '2025-01-06T09:00:00.000Z',
+			endTime: '2025-01-06T09:10:00.000Z',
+			duration: 600,
+			activeSeconds: 600,
+			wallSeconds: 600,
+			filesModified: []
+		});
+
+		expect([...attribution]).toEqual([[UNATTRIBUTED_AREA, 600]]);
+	});
+});
+
+describe('migrateTrackingData', () => {
+	it('strips the inactivity padding from legacy sessions', () => {
+		const result = migrateTrackingData(
+			storedData([
+				{
+					startTime: '2025-01-06T09:00:00.000Z',
+					endTime: '2025-01-06T09:45:00.000Z',
+					duration: 45 * 60,
+					filesModified: []
+				}
+			]),
+			FIFTEEN_MINUTES
+		);
+
+		expect(result.migratedSessions).toBe(1);
+		expect(result.previousTotalSeconds).toBe(45 * 60);
+		expect(result.data.totalSeconds).toBe(30 * 60);
+		expect(result.data.sessions[0]).toMatchObject({
+			duration: 30 * 60,
+			activeSeconds: 30 * 60,
+			endTime: '2025-01-06T09:30:00.000Z'
+		});
+	});
+
+	it('uses the last recorded file activity as the real session end', () => {
+		const result = migrateTrackingData(
+			storedData([
+				{
+					startTime: '2025-01-06T09:00:00.000Z',
+					endTime: '2025-01-06T09:35:00.000Z',
+					duration: 35 * 60,
+					filesModified: [{ path: 'src/lib/canvas-utils.ts', touches: 4, lastModified: '2025-01-06T09:12:00.000Z' }]
+				}
+			]),
+			FIFTEEN_MINUTES
+		);
+
+		expect(result.data.totalSeconds).toBe(12 * 60);
+	});
+
+	it('keeps short sessions that were stopped before the timeout', () => {
+		const result = migrateTrackingData(
+			storedData([
+				{
+					startTime: '2025-01-06T09:00:00.000Z',
+					endTime: '2025-01-06T09:05:00.000Z',
+					duration: 5 * 60,
+					filesModified: []
+				}
+			]),
+			FIFTEEN_MINUTES
+		);
+
+		expect(result.data.totalSeconds).toBe(5 * 60);
+	});
+
+	it('leaves sessions with active time untouched', () => {
+		const session = {
+			startTime: '2025-01-06T09:00:00.000Z',
+			endTime: '2025-01-06T09:40:00.000Z',
+			duration: 1200,
+			activeSeconds: 1200,
+			wallSeconds: 2400,
+			filesModified: []
+		};
+		const result = migrateTrackingData(storedData([session]), FIFTEEN_MINUTES);
+
+		expect(result.migratedSessions).toBe(0);
+		expect(result.data.sessions[0]).toEqual(session);
+		expect(result.data.totalSeconds).toBe(1200);
+	});
+});
+
+describe('TimeTracker persistence', () => {
+	let dataDir: string;
+	let dataFile: string;
+
+	const session = (startTime: string, seconds: number): TrackingSession => ({
+		startTime,
+		endTime: new Date(Date.parse(startTime) + seconds * 1000).toISOString(),
+		duration: seconds,
+		activeSeconds: seconds,
+		wallSeconds: seconds,
+		filesModified: []
+	});
+
+	beforeEach(async () => {
+		dataDir = await mkdtemp(join(tmpdir(), 'time-tracker-'));
+		dataFile = join(dataDir, 'data.json');
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		await rm(dataDir, { recursive: true, force: true });
+	});
+
+	it('rebuilds a torn data file from its backup and the journal', async () => {
+		const backedUp = session('2025-01-06T09:00:00.000Z', 600);
+		const journaled = session('2025-01-07T09:00:00.000Z', 300);
+		const journalEvent: JournalEvent = { type: 'session-end', at: journaled.endTime!, session: journaled };
+
+		await writeFile(dataFile, '{"sessions": [{"startT');
+		await writeFile(`${dataFile}.1.bak`, JSON.stringify(storedData([backedUp])));
+		await writeFile(join(dataDir, 'journal.ndjson'), `${JSON.stringify(journalEvent)}\n{"type":"sess`);
+
+		const tracker = new TimeTracker({ dataFile }, dataDir);
+		const data = await tracker.recover();
+
+		expect(data.sessions.map((s) => s.startTime)).toEqual([backedUp.startTime, journaled.startTime]);
+		expect(data.totalSeconds).toBe(900);
+
+		const saved = JSON.parse(await readFile(dataFile, 'utf-8'));
+		expect(saved.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+		expect(saved.sessions).toHaveLength(2);
+	});
+
+	it('keeps only unsaved sessions in the journal after a save', async () => {
+		const journaled = session('2025-01-07T09:00:00.000Z', 300);
+		const journalEvent: JournalEvent = { type: 'session-end', at: journaled.endTime!, session: journaled };
+		await writeFile(join(dataDir, 'journal.ndjson'), `${JSON.stringify(journalEvent)}\n`);
+
+		const data = await new TimeTracker({ dataFile }, dataDir).recover();
+
+		expect(data.sessions).toHaveLength(1);
+		expect(await readFile(join(dataDir, 'journal.ndjson'), 'utf-8')).toBe('');
+	});
+
+	it('leaves a corrupt data file in place for read-only callers', async () => {
+		const backedUp = session('2025-01-06T09:00:00.000Z', 600);
+		await writeFile(dataFile, '{"sessions": [{"startT');
+		await writeFile(`${dataFile}.1.bak`, JSON.stringify(storedData([backedUp])));
+
+		const stats = await new TimeTracker({ dataFile }, dataDir).getStats();
+
+		expect(stats.sessions).toHaveLength(1);
+		expect(await readFile(dataFile, 'utf-8')).toBe('{"sessions": [{"startT');
+	});
+
+	it('refuses data written by a newer schema version', async () => {
+		await writeFile(dataFile, JSON.stringify({ ...storedData([]), schemaVersion: CURRENT_SCHEMA_VERSION + 1 }));
+
+		const tracker = new TimeTracker({ dataFile }, dataDir);
+
+		await expect(tracker.getStats()).rejects.toThrow(/newer than this tracker/);
+		expect(existsSync(`${dataFile}.1.bak`)).toBe(false);
+	});
+});
+
+describe('TimeTracker file filtering', () => {
+	let projectRoot: string;
+
+	beforeEach(async () => {
+		projectRoot = await mkdtemp(join(tmpdir(), 'time-tracker-filter-'));
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(async () => {
+		await rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('skips dotfiles and extensionless files when extensions are filtered', () => {
+		const tracker = new TimeTracker({ dataFile: join(projectRoot, 'data.json') }, projectRoot);
+
+		expect(tracker.isTracked('src/lib/physics.ts')).toBe(true);
+		expect(tracker.isTracked('src/.env')).toBe(false);
+		expect(tracker.isTracked('Makefile')).toBe(false);
+		expect(tracker.isTracked('src/node_modules/pkg/index.js')).toBe(false);
+		expect(tracker.isTracked('src/server.log')).toBe(false);
+	});
+
+	it('tracks files named by include globs whatever their extension', () => {
+		const tracker = new TimeTracker(
+			{ dataFile: join(projectRoot, 'data.json'), includePatterns: ['Makefile', '**/.env.example', 'src/**/*.ts'] },
+			projectRoot
+		);
+
+		expect(tracker.isTracked('Makefile')).toBe(true);
+		expect(tracker.isTracked('config/.env.example')).toBe(true);
+		expect(tracker.isTracked('src/lib/physics.ts')).toBe(true);
+		expect(tracker.isTracked('src/styles/global.css')).toBe(false);
+	});
+
+	it('merges .timetrackerrc.json and .gitignore under constructor options', async () => {
+		await writeFile(
+			join(projectRoot, '.timetrackerrc.json'),
+			JSON.stringify({ includePatterns: ['src/**', 'docs/*.md'], ignorePatterns: ['**/*.test.ts'], backupCount: 'lots' })
+		);
+		await writeFile(join(projectRoot, '.gitignore'), '# build output\ngenerated/\n');
+
+		const tracker = new TimeTracker({ dataFile: join(projectRoot, 'data.json') }, projectRoot);
+
+		expect(tracker.isTracked('src/lib/physics.ts')).toBe(true);
+		expect(tracker.isTracked('src/lib/physics.test.ts')).toBe(false);
+		expect(tracker.isTracked('src/generated/types.ts')).toBe(false);
+		expect(tracker.isTracked('docs/setup.md')).toBe(true);
+		expect(tracker.isTracked('docs/api/setup.md')).toBe(false);
+		expect(tracker.isTracked('public/app.js')).toBe(false);
+		expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('"backupCount"'));
+
+		const overridden = new TimeTracker(
+			{ dataFile: join(projectRoot, 'data.json'), includePatterns: [], useGitignore: false },
+			projectRoot
+		);
+		expect(overridden.isTracked('public/app.js')).toBe(true);
+		expect(overridden.isTracked('src/generated/types.ts')).toBe(true);
+	});
+});
+
+describe('TimeTracker', () => {
+	let projectRoot: string;
+	let tracker: TimeTracker;
+
+	beforeEach(async () => {
+		vi.spyOn(console, 'log').mockImplementation(() => {});
+		projectRoot = await mkdtemp(join(tmpdir(), 'time-tracker-'));
+		await mkdir(join(projectRoot, 'src'));
+		await writeFile(join(projectRoot, 'src', 'index.ts'), '');
+		tracker = new TimeTracker(
+			{ watchDirectories: ['src'], dataFile: join(projectRoot, 'data', 'data.json') },
+			projectRoot
+		);
+	});
+
+	afterEach(async () => {
+		await tracker.stop();
+		await rm(projectRoot, { recursive: true, force: true });
+	});
+
+	it('opens a session on file changes and saves it on stop', async () => {
+		await tracker.start();
+		expect((await tracker.getStats()).currentSession).toBeNull();
+
+		await writeFile(join(projectRoot, 'src', 'index.ts'), 'export {};\n');
+		await vi.waitFor(async () => expect((await tracker.getStats()).currentSession).not.toBeNull(), 5000);
+
+		await tracker.stop();
+		// A separate reader, like `status` in another process
+		const stats = await new TimeTracker({ dataFile: tracker.getDataFilePath() }, projectRoot).getStats();
+		expect(stats.currentSession).toBeNull();
+		expect(stats.sessions).toHaveLength(1);
+		expect(stats.sessions[0]?.endTime).not.toBeNull();
+		expect(stats.firstTracked).toBe(stats.sessions[0]?.startTime);
+	});
+
+	it('records each changed file once per save, relative to the project root', async () => {
+		await writeFile(join(projectRoot, 'src', 'notes.txt'), '');
+		await tracker.start();
+
+		await writeFile(join(projectRoot, 'src', 'notes.txt'), 'scratch\n');
+		await writeFile(join(projectRoot, 'src', 'index.ts'), 'export {};\n');
+		await vi.waitFor(async () => expect((await tracker.getStats()).currentSession).not.toBeNull(), 5000);
+		await tracker.stop();
+
+		const [session] = (await tracker.getStats()).sessions;
+		expect(session?.filesModified).toEqual([
+			{ path: 'src/index.ts', touches: 1, lastModified: expect.any(String) }
+		]);
+	});
+
+	it('tags the session with git HEAD before other processes first see it', async () => {
+		const commit = 'a'.repeat(40);
+		await mkdir(join(projectRoot, '.git', 'refs', 'heads'), { recursive: true });
+		await writeFile(join(projectRoot, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+		await writeFile(join(projectRoot, '.git', 'refs', 'heads', 'main'), `${commit}\n`);
+		await tracker.start();
+
+		await writeFile(join(projectRoot, 'src', 'index.ts'), 'export {};\n');
+		const reader = new TimeTracker({ dataFile: tracker.getDataFilePath() }, projectRoot);
+		await vi.waitFor(async () => expect((await reader.getStats()).currentSession).not.toBeNull(), 5000);
+
+		expect((await reader.getStats()).currentSession?.git).toMatchObject({ branch: 'main', startCommit: commit });
+	});
+
+	it('finishes the session start and its snapshots before a stop clears them', async () => {
+		const commit = 'a'.repeat(40);
+		await mkdir(join(projectRoot, '.git', 'refs', 'heads'), { recursive: true });
+		await writeFile(join(projectRoot, '.git', 'HEAD'), 'ref: refs/heads/main\n');
+		await writeFile(join(projectRoot, '.git', 'refs', 'heads', 'main'), `${commit}\n`);
+		await tracker.start();
+
+		// Hold the new session's HEAD re-read until the tracker is already stopping
+		let releaseHead!: () => void;
+		const headRead = new Promise<void>((resolve) => {
+			releaseHead = resolve;
+		});
+		const trackerInternals = tracker as unknown as { readGitHead(): Promise<unknown> };
+		vi.spyOn(trackerInternals, 'readGitHead').mockImplementation(async () => {
+			await headRead;
+			return { branch: 'feature', commit: 'b'.repeat(40) };
+		});
+
+		await writeFile(join(projectRoot, 'src', 'index.ts'), 'export {};\n');
+		await vi.waitFor(async () => expect((await tracker.getStats()).currentSession).not.toBeNull(), 5000);
+		setTimeout(releaseHead, 100);
+		await tracker.stop();
+		// Whatever was still in flight has landed by now
+		await new Promise((resolve) => setTimeout(resolve, 150));
+
+		const dataDir = join(projectRoot, 'data');
+		expect(existsSync(join(dataDir, 'session.json'))).toBe(false);
+		expect((await readFile(join(dataDir, 'journal.ndjson'), 'utf-8')).trim()).toBe('');
+		const [session] = (await tracker.getStats()).sessions;
+		expect(session?.git).toMatchObject({ branch: 'feature', startCommit: 'b'.repeat(40) });
+	});
+});